@@ -0,0 +1,271 @@
+import { t, type Static, type TSchema } from 'elysia';
+import { TypeCompiler, type TypeCheck } from '@sinclair/typebox/compiler';
+import { Value } from '@sinclair/typebox/value';
+
+import { ErrorCode, RoomError } from '@/errors';
+import { HOST_SUCCESSIONS, QUEUE_MODES, ROOM_ROLES } from '@/permissions';
+import { WEBHOOK_EVENT_TYPES } from '@/utils/webhook';
+
+/**
+ * Runtime schemas of every message a client can send. The `ClientMessage` type is derived
+ * from them, so adding a message here is all it takes to type and validate it.
+ */
+
+export const MAX_PITCH = 12; // semitones, one octave either way
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+export const MAX_BATCH_OPERATIONS = 100;
+export const MAX_ROOM_EVENTS_PAGE = 500;
+export const MAX_DISPLAY_NAME_LENGTH = 32;
+export const MAX_NOTE_LENGTH = 200;
+
+const Id = t.String({ minLength: 1, maxLength: 128 });
+const RoomRoleSchema = t.Union(ROOM_ROLES.map((role) => t.Literal(role)));
+
+const ProfileProperties = {
+    // Trimmed and checked for emptiness by validateProfile
+    displayName: t.Optional(t.String({ maxLength: MAX_DISPLAY_NAME_LENGTH })),
+    deviceType: t.Optional(t.Union([t.Literal('player'), t.Literal('remote')])),
+};
+
+const EntryTrimProperties = {
+    startAt: t.Optional(t.Number({ minimum: 0 })),
+    endAt: t.Optional(t.Number({ minimum: 0 })),
+};
+
+// At least one of them is required, see REFINEMENTS
+const EntryTargetProperties = {
+    entryId: t.Optional(Id),
+    // Kept for older clients, it targets the first entry of that video
+    videoId: t.Optional(Id),
+};
+
+// Only these fields are kept, anything else a client adds to a video is dropped
+const YouTubeVideoSchema = t.Object({
+    id: t.String({ pattern: '^[\\w-]{11}$' }),
+    url: t.String({ maxLength: 2048 }),
+    title: t.String({ maxLength: 500 }),
+    duration: t.Number({ minimum: 0 }),
+    duration_formatted: t.String({ maxLength: 32 }),
+    // youtube-sr has no upload date for playlist videos
+    uploadedAt: t.Union([t.String({ maxLength: 64 }), t.Null()]),
+    views: t.Number({ minimum: 0 }),
+    type: t.Literal('video'),
+    channel: t.Object({
+        name: t.String({ maxLength: 200 }),
+        verified: t.Boolean(),
+    }),
+    thumbnail: t.Object({
+        url: t.String({ maxLength: 2048 }),
+    }),
+});
+
+export const QueueOperationSchema = t.Union([
+    t.Object({ ...EntryTargetProperties, op: t.Literal('remove') }),
+    t.Object({ ...EntryTargetProperties, op: t.Literal('move'), toIndex: t.Integer() }),
+    t.Object({ ...EntryTargetProperties, op: t.Literal('moveToTop') }),
+    t.Object({ ...EntryTargetProperties, op: t.Literal('moveToBottom') }),
+]);
+
+const RoomSettingsUpdateSchema = t.Partial(
+    t.Object({
+        defaultRole: RoomRoleSchema,
+        permissions: t.Record(t.String(), RoomRoleSchema),
+        hostSuccession: t.Union(HOST_SUCCESSIONS.map((succession) => t.Literal(succession))),
+        coHostId: Id,
+        queueMode: t.Union(QUEUE_MODES.map((mode) => t.Literal(mode))),
+        skipVoteThreshold: t.Number({ minimum: 0, maximum: 100 }),
+        autoReorderByVotes: t.Boolean(),
+        autoplay: t.Boolean(),
+        autoplayMaxDuration: t.Integer({ minimum: 0 }),
+        rememberPlaybackAdjustments: t.Boolean(),
+    }),
+);
+
+const MessageBaseProperties = {
+    id: Id,
+    timestamp: t.Number(),
+    // Deprecated, ignored for clients that negotiated `results`
+    requiresAck: t.Optional(t.Boolean()),
+};
+
+function message<Type extends string, Properties extends Record<string, TSchema>>(
+    type: Type,
+    properties: Properties,
+) {
+    return t.Object({ ...MessageBaseProperties, type: t.Literal(type), ...properties });
+}
+
+export const ClientMessageSchema = t.Union([
+    message('hello', {
+        protocolVersion: t.Integer({ minimum: 0 }),
+        // Unknown features are ignored, see negotiateProtocol
+        features: t.Optional(t.Array(t.String({ maxLength: 64 }), { maxItems: 32 })),
+        // Free form client name and version, only logged
+        client: t.Optional(t.String({ maxLength: 64 })),
+    }),
+    message('resyncRoom', {}),
+    message('ping', {
+        // Client time the ping was sent at, answered with the server times in the pong
+        clientSendTime: t.Optional(t.Number()),
+        // Client time the previous pong arrived at, completes the previous exchange
+        lastPongReceivedAt: t.Optional(t.Number()),
+    }),
+    message('createRoom', { password: t.Optional(t.String()), ...ProfileProperties }),
+    message('joinRoom', { roomId: Id, password: t.Optional(t.String()), ...ProfileProperties }),
+    message('reJoinRoom', {
+        roomId: Id,
+        password: t.Optional(t.String()),
+        sessionToken: t.Optional(Id),
+        ...ProfileProperties,
+    }),
+    message('updateProfile', ProfileProperties),
+    message('leaveRoom', {}),
+    message('closeRoom', {}),
+    message('sendMessage', { message: t.String({ minLength: 1, maxLength: 1000 }) }),
+    message('addVideo', {
+        video: YouTubeVideoSchema,
+        note: t.Optional(t.String({ maxLength: MAX_NOTE_LENGTH })),
+        allowDuplicate: t.Optional(t.Boolean()),
+        ...EntryTrimProperties,
+    }),
+    message('removeVideoFromQueue', EntryTargetProperties),
+    message('playNow', { video: YouTubeVideoSchema }),
+    message('nextVideo', {}),
+    message('setVolume', { volume: t.Number() }),
+    message('setPitch', { pitch: t.Integer({ minimum: -MAX_PITCH, maximum: MAX_PITCH }) }),
+    message('setPlaybackRate', {
+        playbackRate: t.Number({ minimum: MIN_PLAYBACK_RATE, maximum: MAX_PLAYBACK_RATE }),
+    }),
+    message('replay', {}),
+    message('play', {}),
+    message('pause', {}),
+    message('seek', { time: t.Number({ minimum: 0 }) }),
+    // Only counted from the primary player, entryId guards against stale reports
+    message('videoFinished', { entryId: t.Optional(Id) }),
+    message('reportProgress', { entryId: Id, currentTime: t.Number({ minimum: 0 }) }),
+    message('moveToTop', EntryTargetProperties),
+    message('moveToBottom', { entryId: Id }),
+    message('moveVideo', { entryId: Id, toIndex: t.Integer() }),
+    message('batchQueueOperations', {
+        operations: t.Array(QueueOperationSchema, {
+            minItems: 1,
+            maxItems: MAX_BATCH_OPERATIONS,
+        }),
+    }),
+    message('voteSkip', { vote: t.Optional(t.Boolean()) }),
+    message('upvoteEntry', { entryId: Id, vote: t.Optional(t.Boolean()) }),
+    message('shuffleQueue', {}),
+    message('clearQueue', {}),
+    message('clearHistory', {}),
+    message('addVideoAndMoveToTop', {
+        video: YouTubeVideoSchema,
+        note: t.Optional(t.String({ maxLength: MAX_NOTE_LENGTH })),
+        ...EntryTrimProperties,
+    }),
+    message('setEntryTrim', { entryId: Id, ...EntryTrimProperties }),
+    message('importPlaylist', { playlistUrlOrId: t.String({ minLength: 1, maxLength: 2048 }) }),
+    message('setRole', { clientId: Id, role: RoomRoleSchema }),
+    message('updateRoomSettings', { settings: RoomSettingsUpdateSchema }),
+    message('transferHost', { clientId: Id }),
+    message('voteHost', { clientId: Id }),
+    message('kickClient', { clientId: Id, reason: t.Optional(t.String({ maxLength: 200 })) }),
+    message('banClient', { clientId: Id, reason: t.Optional(t.String({ maxLength: 200 })) }),
+    message('unbanClient', { clientId: Id }),
+    message('muteClient', { clientId: Id }),
+    message('unmuteClient', { clientId: Id }),
+    message('getSingerQueue', { clientId: t.Optional(Id) }),
+    message('createApiToken', {
+        name: t.String({ minLength: 1, maxLength: 64 }),
+        role: t.Optional(RoomRoleSchema),
+    }),
+    message('revokeApiToken', { tokenId: Id }),
+    message('addWebhook', {
+        url: t.String({ minLength: 1, maxLength: 2048 }),
+        events: t.Optional(
+            t.Array(t.Union(WEBHOOK_EVENT_TYPES.map((type) => t.Literal(type))), {
+                uniqueItems: true,
+            }),
+        ),
+    }),
+    message('removeWebhook', { webhookId: Id }),
+    message('getWebhookDeliveries', {}),
+    message('getRoomEvents', {
+        // Stream id of the last event already received, the log starts from the oldest event
+        after: t.Optional(t.String({ maxLength: 32 })),
+        limit: t.Optional(t.Integer({ minimum: 1, maximum: MAX_ROOM_EVENTS_PAGE })),
+    }),
+    message('rebuildRoomState', { version: t.Optional(t.Integer({ minimum: 0 })) }),
+]);
+
+export type ClientMessage = Static<typeof ClientMessageSchema>;
+export type ClientMessageType = ClientMessage['type'];
+export type QueueOperation = Static<typeof QueueOperationSchema>;
+
+const hasEntryTarget = (target: { entryId?: string; videoId?: string }) =>
+    !!target.entryId || !!target.videoId;
+
+const requireEntryTarget = (target: { entryId?: string; videoId?: string }) =>
+    hasEntryTarget(target) ? undefined : 'an entryId or videoId is required';
+
+// Rules a schema cannot express, checked once the message matched its schema. They return
+// what is wrong with the message, or undefined when it is valid.
+const REFINEMENTS: {
+    [Type in ClientMessageType]?: (
+        message: Extract<ClientMessage, { type: Type }>,
+    ) => string | undefined;
+} = {
+    removeVideoFromQueue: requireEntryTarget,
+    moveToTop: requireEntryTarget,
+    batchQueueOperations: (message) =>
+        message.operations.every(hasEntryTarget)
+            ? undefined
+            : 'every operation needs an entryId or videoId',
+};
+
+const validators = new Map<string, TypeCheck<TSchema>>(
+    ClientMessageSchema.anyOf.map((schema) => [
+        schema.properties.type.const,
+        TypeCompiler.Compile(schema),
+    ]),
+);
+
+/**
+ * Validates a raw message against the schema of its type and drops unknown fields.
+ * @param raw The message as parsed from the socket.
+ * @returns The message, typed after its variant.
+ * @throws {RoomError} INVALID_MESSAGE naming the type and the first invalid field.
+ * @example
+ * parseClientMessage({ id: '1', timestamp: 0, type: 'seek', time: -1 });
+ * // throws "Invalid seek message: /time Expected number to be greater or equal to 0"
+ */
+export function parseClientMessage(raw: unknown): ClientMessage {
+    if (!raw || typeof raw !== 'object' || typeof (raw as { type?: unknown }).type !== 'string') {
+        throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Message must be an object with a type');
+    }
+
+    const { type } = raw as { type: string };
+    const validator = validators.get(type);
+    if (!validator) {
+        throw new RoomError(ErrorCode.INVALID_MESSAGE, `Unknown message type: ${type}`);
+    }
+
+    const error = validator.Errors(raw).First();
+    if (error) {
+        throw new RoomError(
+            ErrorCode.INVALID_MESSAGE,
+            `Invalid ${type} message: ${error.path || '/'} ${error.message}`,
+        );
+    }
+
+    const message = Value.Clean(validator.Schema(), raw) as ClientMessage;
+    const refine = REFINEMENTS[message.type] as
+        | ((message: ClientMessage) => string | undefined)
+        | undefined;
+    const problem = refine?.(message);
+    if (problem) {
+        throw new RoomError(ErrorCode.INVALID_MESSAGE, `Invalid ${type} message: ${problem}`);
+    }
+
+    return message;
+}
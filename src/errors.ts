@@ -10,6 +10,13 @@ export enum ErrorCode {
     VIDEO_NOT_FOUND = 'videoNotFound',
     VIDEO_NOT_EMBEDDABLE = 'videoNotEmbeddable',
     'REJOIN_ROOM_NOT_FOUND' = 'rejoinRoomNotFound',
+    INSUFFICIENT_PERMISSION = 'insufficientPermission',
+    CLIENT_NOT_FOUND = 'clientNotFound',
+    BANNED_FROM_ROOM = 'bannedFromRoom',
+    MUTED = 'muted',
+    UNSUPPORTED_PROTOCOL = 'unsupportedProtocol',
+    INVALID_API_TOKEN = 'invalidApiToken',
+    ROOM_BUSY = 'roomBusy',
 }
 
 export interface ErrorResponse {
@@ -38,6 +45,13 @@ function getDefaultErrorMessage(code: ErrorCode): string {
         [ErrorCode.VIDEO_NOT_FOUND]: 'Video not found',
         [ErrorCode.VIDEO_NOT_EMBEDDABLE]: 'Video cannot be embedded',
         [ErrorCode.REJOIN_ROOM_NOT_FOUND]: 'Rejoin room not found',
+        [ErrorCode.INSUFFICIENT_PERMISSION]: 'Your role does not allow this action',
+        [ErrorCode.CLIENT_NOT_FOUND]: 'Client not found in room',
+        [ErrorCode.BANNED_FROM_ROOM]: 'You are banned from this room',
+        [ErrorCode.MUTED]: 'You are muted in this room',
+        [ErrorCode.INVALID_API_TOKEN]: 'Missing or invalid room API token',
+        [ErrorCode.ROOM_BUSY]: 'The room is busy, please try again',
+        [ErrorCode.UNSUPPORTED_PROTOCOL]: 'Your app is too old for this server, please update it',
     };
     return messages[code];
 }
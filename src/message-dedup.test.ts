@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import type { Redis } from 'ioredis';
+import RedisMock from 'ioredis-mock';
+
+import {
+    PENDING_OUTCOME,
+    claimMessage,
+    getProcessedMessageKey,
+    recordOutcome,
+    releaseMessage,
+} from '@/message-dedup';
+
+const WINDOW = 120;
+const KEY = getProcessedMessageKey('client', 'message');
+
+describe('message deduplication', () => {
+    let redis: Redis;
+
+    beforeEach(async () => {
+        redis = new RedisMock() as unknown as Redis;
+        await redis.flushall();
+    });
+
+    test('only the first attempt of a message claims it', async () => {
+        const attempts = await Promise.all([
+            claimMessage(redis, KEY, WINDOW),
+            claimMessage(redis, KEY, WINDOW),
+        ]);
+
+        expect(attempts).toEqual([null, PENDING_OUTCOME]);
+        expect(await redis.ttl(KEY)).toBeGreaterThan(0);
+    });
+
+    test('a retry gets the outcome of the first attempt', async () => {
+        await claimMessage(redis, KEY, WINDOW);
+        await recordOutcome(redis, KEY, { success: true, roomVersion: 3 }, WINDOW);
+
+        const previous = await claimMessage(redis, KEY, WINDOW);
+        expect(JSON.parse(previous!)).toEqual({ success: true, roomVersion: 3 });
+    });
+
+    test('a released message runs again', async () => {
+        await claimMessage(redis, KEY, WINDOW);
+        await releaseMessage(redis, KEY);
+
+        expect(await claimMessage(redis, KEY, WINDOW)).toBeNull();
+    });
+
+    test('the same id from another client is a different message', async () => {
+        await claimMessage(redis, KEY, WINDOW);
+
+        expect(
+            await claimMessage(redis, getProcessedMessageKey('other', 'message'), WINDOW),
+        ).toBeNull();
+    });
+});
@@ -0,0 +1,53 @@
+import type { Redis } from 'ioredis';
+
+import type { MessageOutcome } from '@/types';
+import { createContextLogger } from '@/utils/logger';
+
+/**
+ * Deduplication of client messages by id: the first attempt of a message claims its id for
+ * a window, retries within it are answered with the outcome of that attempt instead of
+ * running again.
+ */
+
+const logger = createContextLogger('MessageDedup');
+
+// Stored for a message that is still being handled, its retries are dropped until it is done
+export const PENDING_OUTCOME = 'pending';
+
+export function getProcessedMessageKey(clientId: string, messageId: string): string {
+    return `processedMessage:${clientId}:${messageId}`;
+}
+
+/**
+ * Claims a message id for the session, so retries of it within the window are not
+ * executed again.
+ * @param window Seconds the claim is kept.
+ * @returns null when the message is new, otherwise what is known about the first attempt:
+ * PENDING_OUTCOME while it is running, its serialized outcome once it is done.
+ */
+export async function claimMessage(
+    client: Redis,
+    key: string,
+    window: number,
+): Promise<string | null> {
+    const claimed = await client.set(key, PENDING_OUTCOME, 'EX', window, 'NX');
+    return claimed ? null : (await client.get(key)) ?? PENDING_OUTCOME;
+}
+
+export async function recordOutcome(
+    client: Redis,
+    key: string,
+    outcome: MessageOutcome,
+    window: number,
+): Promise<void> {
+    try {
+        await client.set(key, JSON.stringify(outcome), 'EX', window);
+    } catch (error) {
+        logger.error('Failed to record message outcome', { error, key });
+    }
+}
+
+// Drops the claim of a message that changed nothing, so a retry with the same id runs again
+export async function releaseMessage(client: Redis, key: string): Promise<void> {
+    await client.del(key);
+}
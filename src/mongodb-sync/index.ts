@@ -1,8 +1,10 @@
 import { Redis } from 'ioredis';
 import mongoose from 'mongoose';
 
+import { getRoomKey, listRoomIds, readRoom, replaceRoom, writeRoom } from '@/room-store';
 import type { Room, ClientInfo } from '@/types';
 import { createContextLogger } from '@/utils/logger';
+import { migrateQueueEntries } from '@/utils/queue';
 
 import { RoomModel } from './room.schema';
 import { ClientModel } from './client.schema';
@@ -48,32 +50,29 @@ export async function syncToMongoDB(redis: Redis): Promise<boolean> {
 
         try {
             // Get all keys
-            const roomKeys = await redis.keys('room:*');
+            const roomIds = await listRoomIds(redis);
             const clientKeys = await redis.keys('client:*');
 
-            logger.info(`Found ${roomKeys.length} rooms and ${clientKeys.length} clients to sync`);
+            logger.info(`Found ${roomIds.length} rooms and ${clientKeys.length} clients to sync`);
 
             // Skip sync if no data to sync
-            if (roomKeys.length === 0 && clientKeys.length === 0) {
+            if (roomIds.length === 0 && clientKeys.length === 0) {
                 logger.info('No data to sync to MongoDB');
                 await session.endSession();
                 return true;
             }
 
             // Process rooms in batches
-            for (let i = 0; i < roomKeys.length; i += BATCH_SIZE) {
-                const batch = roomKeys.slice(i, i + BATCH_SIZE);
+            for (let i = 0; i < roomIds.length; i += BATCH_SIZE) {
+                const batch = roomIds.slice(i, i + BATCH_SIZE);
                 const roomDocs: Room[] = [];
 
-                for (const key of batch) {
-                    const roomId = key.replace('room:', '');
-                    const roomData = await redis.get(key);
-
-                    if (!roomData) continue;
-
+                for (const roomId of batch) {
                     try {
-                        const room: Room = JSON.parse(roomData);
-                        roomDocs.push(room);
+                        const snapshot = await readRoom(redis, roomId);
+                        if (snapshot) {
+                            roomDocs.push(snapshot.room);
+                        }
                     } catch (error) {
                         logger.warn(`Failed to parse room data for ${roomId}`, { error });
                     }
@@ -150,6 +149,47 @@ export async function syncToMongoDB(redis: Redis): Promise<boolean> {
     return success;
 }
 
+/**
+ * Wraps the bare videos of rooms stored before queue entries existed into entries.
+ * Runs on the raw collection, the room schema would drop the legacy video fields.
+ * @returns The number of migrated rooms
+ */
+export async function migrateLegacyQueueEntries(): Promise<number> {
+    const legacyFilter = {
+        $or: [
+            { 'videoQueue.id': { $exists: true } },
+            { 'historyQueue.id': { $exists: true } },
+            { 'playingNow.id': { $exists: true } },
+        ],
+    };
+
+    const cursor = RoomModel.collection.find(legacyFilter);
+    let migrated = 0;
+
+    for (let doc = await cursor.next(); doc != null; doc = await cursor.next()) {
+        const room = doc as unknown as Room;
+        migrateQueueEntries(room);
+
+        await RoomModel.collection.updateOne(
+            { _id: doc._id },
+            {
+                $set: {
+                    videoQueue: room.videoQueue,
+                    historyQueue: room.historyQueue,
+                    playingNow: room.playingNow,
+                },
+            },
+        );
+        migrated++;
+    }
+
+    if (migrated > 0) {
+        logger.info(`Migrated ${migrated} rooms to queue entries`);
+    }
+
+    return migrated;
+}
+
 /**
  * Synchronizes data from MongoDB to Redis with retry capability and cursor-based processing
  * @param redis Redis client instance
@@ -182,6 +222,8 @@ export async function syncFromMongoDB(redis: Redis): Promise<boolean> {
         }
 
         try {
+            await migrateLegacyQueueEntries();
+
             // Check if there's data to sync
             const roomCount = await RoomModel.countDocuments();
             const clientCount = await ClientModel.countDocuments();
@@ -201,7 +243,7 @@ export async function syncFromMongoDB(redis: Redis): Promise<boolean> {
             for (let room = await roomCursor.next(); room != null; room = await roomCursor.next()) {
                 try {
                     const roomObject = room.toObject();
-                    await redis.set(`room:${room.id}`, JSON.stringify(roomObject));
+                    await replaceRoom(redis, roomObject as Room);
                     roomsSynced++;
                 } catch (error) {
                     roomErrors++;
@@ -281,7 +323,7 @@ export async function validateDataIntegrity(redis: Redis): Promise<void> {
         for (const key of clientKeys) {
             const clientData = await redis.hgetall(key);
             if (clientData.roomId) {
-                const roomExists = await redis.exists(`room:${clientData.roomId}`);
+                const roomExists = await redis.exists(getRoomKey(clientData.roomId));
                 if (!roomExists) {
                     // Client has reference to non-existent room
                     await redis.del(key);
@@ -291,31 +333,33 @@ export async function validateDataIntegrity(redis: Redis): Promise<void> {
         }
 
         // 2. Find rooms with non-existent clients
-        const roomKeys = await redis.keys('room:*');
+        const roomIds = await listRoomIds(redis);
         let invalidRoomClientsCount = 0;
 
-        for (const key of roomKeys) {
-            const roomData = await redis.get(key);
-            if (roomData) {
-                try {
-                    const room: Room = JSON.parse(roomData);
-                    const validClients = [];
+        for (const roomId of roomIds) {
+            try {
+                const snapshot = await readRoom(redis, roomId);
+                if (!snapshot) continue;
 
-                    for (const clientId of room.clients) {
-                        const clientExists = await redis.exists(`client:${clientId}`);
-                        if (clientExists) {
-                            validClients.push(clientId);
-                        }
+                const { room } = snapshot;
+                const validClients = [];
+
+                for (const clientId of room.clients) {
+                    const clientExists = await redis.exists(`client:${clientId}`);
+                    if (clientExists) {
+                        validClients.push(clientId);
                     }
+                }
 
-                    if (validClients.length !== room.clients.length) {
+                // A room written in the meantime is left for the next validation
+                if (validClients.length !== room.clients.length) {
+                    room.clients = validClients;
+                    if (await writeRoom(redis, snapshot, room)) {
                         invalidRoomClientsCount++;
-                        room.clients = validClients;
-                        await redis.set(key, JSON.stringify(room));
                     }
-                } catch (error) {
-                    logger.warn(`Failed to validate room ${key}`, { error });
                 }
+            } catch (error) {
+                logger.warn(`Failed to validate room ${roomId}`, { error });
             }
         }
 
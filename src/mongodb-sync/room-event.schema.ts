@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+import type { RoomEvent } from '@/types';
+
+// Patches hold dotted paths as keys, which MongoDB would read as nested fields, so they are
+// stored as JSON text
+export type StoredRoomEvent = Omit<RoomEvent, 'patch'> & { patch: string };
+
+const roomEventSchema = new mongoose.Schema<StoredRoomEvent>(
+    {
+        id: {
+            type: String,
+            required: true,
+        },
+        roomId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        actor: {
+            type: String,
+            required: true,
+        },
+        type: {
+            type: String,
+            required: true,
+        },
+        // Payloads follow the message shapes, kept schemaless
+        payload: {
+            type: mongoose.Schema.Types.Mixed,
+            default: {},
+        },
+        version: {
+            type: Number,
+            required: true,
+        },
+        occurredAt: {
+            type: Number,
+            required: true,
+        },
+        patch: {
+            type: String,
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    },
+);
+
+// Room ids are reused once a room is closed, events of a session are told apart by time
+roomEventSchema.index({ roomId: 1, occurredAt: 1 });
+
+export const RoomEventModel = mongoose.model<StoredRoomEvent>('RoomEvent', roomEventSchema);
@@ -1,5 +1,5 @@
 import mongoose from 'mongoose';
-import type { Room, YouTubeVideo } from '@/types';
+import type { QueueEntry, Room, YouTubeVideo } from '@/types';
 
 /**
  * These schemas currently not strict and may be not fully correct.
@@ -25,6 +25,22 @@ const videoSchema = new mongoose.Schema<YouTubeVideo>({
     type: { type: String, required: false, default: 'video' },
 });
 
+// Define the sub-schema for queue and history entries wrapping a video
+const queueEntrySchema = new mongoose.Schema<QueueEntry>({
+    entryId: { type: String, required: true },
+    video: { type: videoSchema, required: true },
+    addedBy: { type: String, required: false },
+    addedAt: { type: Number, required: true },
+    note: { type: String, required: false },
+    pinned: { type: Boolean, required: false },
+    upvotes: [{ type: String }],
+    autoAdded: { type: Boolean, required: false },
+    pitch: { type: Number, required: false },
+    playbackRate: { type: Number, required: false },
+    startAt: { type: Number, required: false, min: 0 },
+    endAt: { type: Number, required: false, min: 0 },
+});
+
 // Define the room schema
 const roomSchema = new mongoose.Schema<Room>(
     {
@@ -45,16 +61,24 @@ const roomSchema = new mongoose.Schema<Room>(
                 index: true,
             },
         ],
-        videoQueue: [videoSchema],
-        historyQueue: [videoSchema],
+        videoQueue: [queueEntrySchema],
+        historyQueue: [queueEntrySchema],
         volume: {
             type: Number,
             default: 50,
             min: 0,
             max: 100,
         },
+        pitch: {
+            type: Number,
+            default: 0,
+        },
+        playbackRate: {
+            type: Number,
+            default: 1,
+        },
         playingNow: {
-            type: videoSchema,
+            type: queueEntrySchema,
             default: null,
         },
         lastActivity: {
@@ -66,6 +90,14 @@ const roomSchema = new mongoose.Schema<Room>(
             required: true,
             index: true,
         },
+        primaryPlayerId: {
+            type: String,
+            default: null,
+        },
+        version: {
+            type: Number,
+            default: 0,
+        },
         isPlaying: {
             type: Boolean,
             default: false,
@@ -75,6 +107,61 @@ const roomSchema = new mongoose.Schema<Room>(
             default: 0,
             min: 0,
         },
+        playbackUpdatedAt: {
+            type: Number,
+            default: Date.now,
+        },
+        // Maps of client id to role and message type to role, kept schemaless
+        roles: {
+            type: mongoose.Schema.Types.Mixed,
+            default: {},
+        },
+        settings: {
+            defaultRole: { type: String, default: 'singer' },
+            permissions: { type: mongoose.Schema.Types.Mixed, default: {} },
+            hostSuccession: { type: String, default: 'oldest' },
+            coHostId: { type: String, required: false },
+            queueMode: { type: String, default: 'fifo' },
+            skipVoteThreshold: { type: Number, default: 50, min: 0, max: 100 },
+            autoReorderByVotes: { type: Boolean, default: false },
+            autoplay: { type: Boolean, default: false },
+            autoplayMaxDuration: { type: Number, default: 0, min: 0 },
+            rememberPlaybackAdjustments: { type: Boolean, default: true },
+        },
+        hostVote: {
+            type: mongoose.Schema.Types.Mixed,
+            default: null,
+        },
+        bans: [
+            {
+                clientId: { type: String, required: true },
+                ip: { type: String, required: false },
+                reason: { type: String, required: false },
+                bannedAt: { type: Number, required: true },
+                bannedBy: { type: String, required: true },
+            },
+        ],
+        mutedClients: [{ type: String }],
+        webhooks: [
+            {
+                id: { type: String, required: true },
+                url: { type: String, required: true },
+                events: [{ type: String }],
+                secret: { type: String, required: false },
+                createdBy: { type: String, required: true },
+                createdAt: { type: Number, required: true },
+            },
+        ],
+        apiTokens: [
+            {
+                id: { type: String, required: true },
+                name: { type: String, required: true },
+                role: { type: String, required: true },
+                createdBy: { type: String, required: true },
+                createdAt: { type: Number, required: true },
+            },
+        ],
+        skipVotes: [{ type: String }],
     },
     {
         timestamps: true,
@@ -0,0 +1,136 @@
+import type {
+    ClientMessageType,
+    HostSuccession,
+    QueueMode,
+    Room,
+    RoomRole,
+    RoomSettings,
+} from '@/types';
+
+// The fields of a room permissions are derived from
+export type RoomAccess = Pick<Room, 'roles' | 'settings'>;
+
+export const ROOM_ROLES: RoomRole[] = ['guest', 'singer', 'moderator', 'host'];
+
+const ROLE_LEVELS: Record<RoomRole, number> = {
+    guest: 0,
+    singer: 1,
+    moderator: 2,
+    host: 3,
+};
+
+/**
+ * Minimum role required for every room-scoped message type.
+ * Messages not listed here (ping, createRoom, joinRoom, ...) are not tied to a room role.
+ */
+export const DEFAULT_PERMISSIONS: Partial<Record<ClientMessageType, RoomRole>> = {
+    sendMessage: 'guest',
+    updateProfile: 'guest',
+    getSingerQueue: 'guest',
+    resyncRoom: 'guest',
+    voteSkip: 'guest',
+    upvoteEntry: 'guest',
+    addVideo: 'singer',
+    importPlaylist: 'singer',
+    nextVideo: 'singer',
+    videoFinished: 'singer',
+    reportProgress: 'singer',
+    play: 'singer',
+    pause: 'singer',
+    replay: 'singer',
+    playNow: 'moderator',
+    addVideoAndMoveToTop: 'moderator',
+    setEntryTrim: 'moderator',
+    moveToTop: 'moderator',
+    moveToBottom: 'moderator',
+    moveVideo: 'moderator',
+    batchQueueOperations: 'moderator',
+    removeVideoFromQueue: 'moderator',
+    shuffleQueue: 'moderator',
+    clearQueue: 'moderator',
+    clearHistory: 'moderator',
+    seek: 'moderator',
+    setVolume: 'moderator',
+    setPitch: 'moderator',
+    setPlaybackRate: 'moderator',
+    kickClient: 'moderator',
+    muteClient: 'moderator',
+    unmuteClient: 'moderator',
+    banClient: 'host',
+    unbanClient: 'host',
+    voteHost: 'guest',
+    setRole: 'host',
+    transferHost: 'host',
+    updateRoomSettings: 'host',
+    createApiToken: 'host',
+    revokeApiToken: 'host',
+    addWebhook: 'host',
+    removeWebhook: 'host',
+    getWebhookDeliveries: 'host',
+    getRoomEvents: 'moderator',
+    rebuildRoomState: 'moderator',
+    closeRoom: 'host',
+};
+
+// Messages a muted member is not allowed to send
+export const MUTED_MESSAGE_TYPES: ClientMessageType[] = [
+    'sendMessage',
+    'addVideo',
+    'addVideoAndMoveToTop',
+    'importPlaylist',
+];
+
+// Messages whose handler checks the matrix itself, e.g. members may remove their own entries
+export const OWNER_CHECKED_MESSAGE_TYPES: ClientMessageType[] = [
+    'removeVideoFromQueue',
+    'batchQueueOperations',
+    'setEntryTrim',
+];
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+    defaultRole: 'singer',
+    permissions: {},
+    hostSuccession: 'oldest',
+    queueMode: 'fifo',
+    skipVoteThreshold: 50,
+    autoReorderByVotes: false,
+    autoplay: false,
+    autoplayMaxDuration: 0,
+    rememberPlaybackAdjustments: true,
+};
+
+export const HOST_SUCCESSIONS: HostSuccession[] = ['oldest', 'coHost', 'vote'];
+
+export const QUEUE_MODES: QueueMode[] = ['fifo', 'fair'];
+
+export function isRoomRole(role: unknown): role is RoomRole {
+    return typeof role === 'string' && ROOM_ROLES.includes(role as RoomRole);
+}
+
+export function isBanned(room: Room, clientId: string, ip?: string | null): boolean {
+    return room.bans.some((ban) => ban.clientId === clientId || (!!ip && ban.ip === ip));
+}
+
+export function isRoomScopedMessage(type: ClientMessageType): boolean {
+    return type in DEFAULT_PERMISSIONS;
+}
+
+export function compareRoles(a: RoomRole, b: RoomRole): number {
+    return ROLE_LEVELS[a] - ROLE_LEVELS[b];
+}
+
+export function getClientRole(room: RoomAccess, clientId: string): RoomRole {
+    return room.roles[clientId] ?? room.settings.defaultRole;
+}
+
+export function getRequiredRole(room: RoomAccess, type: ClientMessageType): RoomRole {
+    return room.settings.permissions[type] ?? DEFAULT_PERMISSIONS[type] ?? 'guest';
+}
+
+export function hasPermission(
+    room: RoomAccess,
+    clientId: string,
+    type: ClientMessageType,
+): boolean {
+    return compareRoles(getClientRole(room, clientId), getRequiredRole(room, type)) >= 0;
+}
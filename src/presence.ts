@@ -0,0 +1,91 @@
+import { MAX_DISPLAY_NAME_LENGTH } from '@/client-message.schema';
+import { ErrorCode, RoomError } from '@/errors';
+import type { ClientProfile, DeviceType, PresenceEntry } from '@/types';
+import { isNullish } from '@/utils/common';
+import { createContextLogger } from '@/utils/logger';
+
+import { redis } from './redis';
+
+const logger = createContextLogger('Presence');
+
+const DEVICE_TYPES: DeviceType[] = ['player', 'remote'];
+
+// Roster of every member of a room, one JSON encoded entry per client id
+const getPresenceKey = (roomId: string): string => `presence:${roomId}`;
+
+/**
+ * Validates the profile fields sent by a client, keeping only the ones that were set.
+ * @throws {RoomError} INVALID_MESSAGE when a field has the wrong type or value.
+ */
+export function validateProfile(profile: ClientProfile): ClientProfile {
+    const validated: ClientProfile = {};
+
+    if (!isNullish(profile.displayName)) {
+        const displayName =
+            typeof profile.displayName === 'string' ? profile.displayName.trim() : '';
+        if (!displayName || displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+            throw new RoomError(
+                ErrorCode.INVALID_MESSAGE,
+                `Display name must be 1 to ${MAX_DISPLAY_NAME_LENGTH} characters`,
+            );
+        }
+        validated.displayName = displayName;
+    }
+
+    if (!isNullish(profile.deviceType)) {
+        if (!DEVICE_TYPES.includes(profile.deviceType)) {
+            throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid device type');
+        }
+        validated.deviceType = profile.deviceType;
+    }
+
+    return validated;
+}
+
+export function getDefaultDisplayName(clientId: string): string {
+    return `Guest ${clientId.slice(0, 4).toUpperCase()}`;
+}
+
+export async function getPresence(roomId: string, clientId: string): Promise<PresenceEntry | null> {
+    const data = await redis.hget(getPresenceKey(roomId), clientId);
+    if (!data) {
+        return null;
+    }
+
+    try {
+        return JSON.parse(data);
+    } catch (error) {
+        logger.warn('Failed to parse presence entry', { roomId, clientId, error });
+        return null;
+    }
+}
+
+/**
+ * Returns the presence roster of a room ordered by join time.
+ */
+export async function getPresenceRoster(roomId: string): Promise<PresenceEntry[]> {
+    const entries = await redis.hgetall(getPresenceKey(roomId));
+    const roster: PresenceEntry[] = [];
+
+    for (const [clientId, data] of Object.entries(entries)) {
+        try {
+            roster.push(JSON.parse(data));
+        } catch (error) {
+            logger.warn('Failed to parse presence entry', { roomId, clientId, error });
+        }
+    }
+
+    return roster.sort((a, b) => a.joinedAt - b.joinedAt);
+}
+
+export async function setPresence(roomId: string, entry: PresenceEntry): Promise<void> {
+    await redis.hset(getPresenceKey(roomId), entry.clientId, JSON.stringify(entry));
+}
+
+export async function removePresence(roomId: string, clientId: string): Promise<void> {
+    await redis.hdel(getPresenceKey(roomId), clientId);
+}
+
+export async function clearPresence(roomId: string): Promise<void> {
+    await redis.del(getPresenceKey(roomId));
+}
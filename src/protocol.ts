@@ -0,0 +1,28 @@
+import type { ProtocolFeature } from '@/types';
+
+// Version of the message set this server speaks, bumped with every incompatible change
+export const PROTOCOL_VERSION = 2;
+// Oldest client version the server still answers, older clients are disconnected
+export const MIN_PROTOCOL_VERSION = 1;
+
+// Binary encoding is known but not offered yet, clients asking for it fall back to JSON
+export const SUPPORTED_FEATURES: ProtocolFeature[] = ['deltaUpdates', 'timeSync', 'results'];
+
+export interface NegotiatedProtocol {
+    version: number;
+    features: ProtocolFeature[];
+}
+
+// Spoken by sockets that never sent `hello`, e.g. TV apps from before the handshake
+export const LEGACY_PROTOCOL: NegotiatedProtocol = { version: 1, features: [] };
+
+/**
+ * Settles on the newest version both sides speak and the features both support.
+ * Features the server does not know are ignored so newer clients can still connect.
+ */
+export function negotiateProtocol(version: number, requested: string[]): NegotiatedProtocol {
+    return {
+        version: Math.min(version, PROTOCOL_VERSION),
+        features: SUPPORTED_FEATURES.filter((feature) => requested.includes(feature)),
+    };
+}
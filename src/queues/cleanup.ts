@@ -2,7 +2,7 @@ import { Redis } from 'ioredis';
 import { Queue, Worker } from 'bullmq';
 
 import { closeRoom } from '@/server';
-import type { Room } from '@/types';
+import { getRoomKey, listRoomIds, loadRoom } from '@/room-store';
 import { createContextLogger } from '@/utils/logger';
 import { validateDataIntegrity } from '@/mongodb-sync';
 
@@ -79,34 +79,34 @@ worker.on('failed', (job, error) => {
  * @returns {Promise<{cleanedRoomsCount: number}>} The number of rooms that were cleaned up
  */
 async function cleanupInactiveRooms() {
-    const keys = await connection.keys('room:*');
+    const roomIds = await listRoomIds(connection);
     const now = Date.now();
 
-    logger.info(`Starting cleanup check for ${keys.length} rooms`);
+    logger.info(`Starting cleanup check for ${roomIds.length} rooms`);
     let cleanedRoomsCount = 0;
 
-    for (const key of keys) {
-        const roomData = await connection.get(key);
-        if (!roomData) {
-            logger.warn(`Room data not found for key: ${key}`);
-            continue;
-        }
-
+    for (const roomId of roomIds) {
         try {
-            const room: Room = JSON.parse(roomData);
+            // Loaded rather than read, so entries of older rooms are converted as well
+            const room = (await loadRoom(connection, roomId))?.room;
+            if (!room) {
+                logger.warn(`Room data not found for room: ${roomId}`);
+                continue;
+            }
 
             // Determine timeout based on playback status
             let timeoutMs = INACTIVE_TIMEOUT;
 
             // If there's a video playing, use extended timeout
             if (room.playingNow && room.isPlaying) {
-                const videoDurationMs = (room.playingNow.duration || 0) * 1000;
+                const video = room.playingNow.video;
+                const videoDurationMs = (video.duration || 0) * 1000;
                 const minTimeoutMs = MIN_VIDEO_TIMEOUT_HOURS * 60 * 60 * 1000; // Convert hours to ms
                 // Use the maximum of MIN_VIDEO_TIMEOUT_HOURS or VIDEO_DURATION_MULTIPLIER times the video duration
                 timeoutMs = Math.max(minTimeoutMs, videoDurationMs * VIDEO_DURATION_MULTIPLIER);
                 logger.debug(`Room ${room.id} has a playing video, using extended timeout`, {
                     roomId: room.id,
-                    videoDuration: room.playingNow.duration,
+                    videoDuration: video.duration,
                     extendedTimeoutMs: timeoutMs,
                     extendedTimeoutMinutes: Math.round(timeoutMs / (60 * 1000)),
                     extendedTimeoutHours: (timeoutMs / (60 * 60 * 1000)).toFixed(2),
@@ -138,7 +138,7 @@ async function cleanupInactiveRooms() {
                 cleanedRoomsCount++;
             }
         } catch (error) {
-            logger.error(`Failed to process room ${key}`, { error });
+            logger.error(`Failed to process room ${roomId}`, { error });
         }
     }
 
@@ -173,7 +173,7 @@ async function cleanupOrphanedClients() {
         }
 
         // Check if the referenced room exists
-        const roomExists = await connection.exists(`room:${clientData.roomId}`);
+        const roomExists = await connection.exists(getRoomKey(clientData.roomId));
         if (!roomExists) {
             await connection.del(key);
             orphanedClientsCount++;
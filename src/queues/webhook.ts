@@ -0,0 +1,213 @@
+import { Redis } from 'ioredis';
+import { Queue, UnrecoverableError, Worker, type Job } from 'bullmq';
+
+import type { Room, WebhookDelivery, WebhookEvent, WebhookEventType } from '@/types';
+import { createContextLogger } from '@/utils/logger';
+import {
+    WEBHOOK_SIGNATURE_HEADER,
+    WebhookAddressError,
+    postWebhook,
+    signWebhookPayload,
+} from '@/utils/webhook';
+
+// Webhooks of the server config receive every event of every room
+const WEBHOOK_URLS = (process.env.WEBHOOK_URLS || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+const WEBHOOK_TIMEOUT = parseInt(process.env.WEBHOOK_TIMEOUT || '10') * 1000; // default 10 seconds
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5'); // default 5 attempts
+const WEBHOOK_DELIVERY_LOG_SIZE = parseInt(process.env.WEBHOOK_DELIVERY_LOG_SIZE || '100'); // default last 100 attempts
+const WEBHOOK_DELIVERY_LOG_TTL = 7 * 24 * 60 * 60; // seconds, 7 days
+// Lets rooms register local urls, e.g. to test against a local receiver
+export const WEBHOOK_ALLOW_PRIVATE_URLS = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+// Delivery log of the webhooks of the server config
+export const SERVER_DELIVERY_LOG = 'server';
+
+const logger = createContextLogger('Queue/Webhook');
+
+const connection = new Redis({
+    host: process.env.REDIS_HOST || 'localhost',
+    port: process.env.REDIS_PORT ? parseInt(process.env.REDIS_PORT) : 6379,
+    password: process.env.REDIS_PASSWORD,
+    maxRetriesPerRequest: null,
+});
+
+interface WebhookJobData {
+    // Null for the webhooks of the server config
+    webhookId: string | null;
+    url: string;
+    // Carried by the job so events of a closed room can still be signed
+    secret: string;
+    // Room id, or SERVER_DELIVERY_LOG
+    deliveryLog: string;
+    event: WebhookEvent;
+}
+
+export const webhookQueue = new Queue<WebhookJobData>('webhook-delivery', {
+    connection,
+    defaultJobOptions: {
+        removeOnComplete: true,
+        removeOnFail: true,
+        attempts: WEBHOOK_MAX_ATTEMPTS,
+        backoff: {
+            type: 'exponential',
+            delay: 2000,
+        },
+    },
+});
+
+function getDeliveryLogKey(deliveryLog: string): string {
+    return `webhookDeliveries:${deliveryLog}`;
+}
+
+async function logDelivery(deliveryLog: string, delivery: WebhookDelivery): Promise<void> {
+    const key = getDeliveryLogKey(deliveryLog);
+    await connection
+        .multi()
+        .lpush(key, JSON.stringify(delivery))
+        .ltrim(key, 0, WEBHOOK_DELIVERY_LOG_SIZE - 1)
+        .expire(key, WEBHOOK_DELIVERY_LOG_TTL)
+        .exec();
+}
+
+/**
+ * Posts the event to the webhook url. Anything but a 2xx response fails the attempt, so
+ * BullMQ retries it with backoff. Every attempt is written to the delivery log.
+ * Room webhooks are only delivered to hosts resolving to public addresses, and redirects are
+ * not followed, since anyone creating a room could otherwise point them at internal hosts.
+ * The addresses are checked by the lookup of the connection itself, see postWebhook.
+ */
+async function deliverWebhook(job: Job<WebhookJobData>): Promise<{ status: number }> {
+    const { webhookId, url, secret, deliveryLog, event } = job.data;
+    const body = JSON.stringify(event);
+    const startedAt = Date.now();
+    let status: number | null = null;
+
+    try {
+        status = await postWebhook(url, {
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'vkara-webhook',
+                'X-Vkara-Event': event.type,
+                'X-Vkara-Delivery': event.id,
+                [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+                    secret,
+                    Math.floor(Date.now() / 1000),
+                    body,
+                ),
+            },
+            body,
+            timeout: WEBHOOK_TIMEOUT,
+            allowPrivate: !webhookId || WEBHOOK_ALLOW_PRIVATE_URLS,
+        }).catch((error) => {
+            throw error instanceof WebhookAddressError
+                ? new UnrecoverableError(error.message)
+                : error;
+        });
+
+        // A redirect is not followed and fails the attempt like any other non 2xx answer
+        if (status < 200 || status >= 300) {
+            throw new Error(`Receiver answered with HTTP ${status}`);
+        }
+
+        await logDelivery(deliveryLog, {
+            jobId: job.id!,
+            webhookId,
+            url,
+            eventId: event.id,
+            eventType: event.type,
+            attempt: job.attemptsMade + 1,
+            success: true,
+            status,
+            durationMs: Date.now() - startedAt,
+            attemptedAt: startedAt,
+        });
+        return { status };
+    } catch (error) {
+        await logDelivery(deliveryLog, {
+            jobId: job.id!,
+            webhookId,
+            url,
+            eventId: event.id,
+            eventType: event.type,
+            attempt: job.attemptsMade + 1,
+            success: false,
+            status,
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - startedAt,
+            attemptedAt: startedAt,
+        });
+        throw error;
+    }
+}
+
+const worker = new Worker<WebhookJobData>('webhook-delivery', deliverWebhook, {
+    connection,
+    concurrency: 5,
+});
+
+worker.on('failed', (job, error) => {
+    logger.warn(`Webhook delivery ${job?.id} has failed`, {
+        jobId: job?.id,
+        url: job?.data.url,
+        eventType: job?.data.event.type,
+        attemptsMade: job?.attemptsMade,
+        error: error.message,
+    });
+});
+
+/**
+ * Queues a delivery of the event to every webhook of the server config, and to the webhooks
+ * of the room that subscribed to its type.
+ * @param room The room the event happened in, its webhooks are read from it.
+ * @param type The event type.
+ * @param data Payload of the event.
+ */
+export async function enqueueWebhookEvent(
+    room: Pick<Room, 'id' | 'webhooks'>,
+    type: WebhookEventType,
+    data: Record<string, unknown> = {},
+): Promise<void> {
+    const event: WebhookEvent = {
+        id: crypto.randomUUID(),
+        type,
+        roomId: room.id,
+        occurredAt: Date.now(),
+        data,
+    };
+
+    const jobs: WebhookJobData[] = [
+        ...WEBHOOK_URLS.map((url) => ({
+            webhookId: null,
+            url,
+            secret: WEBHOOK_SECRET,
+            deliveryLog: SERVER_DELIVERY_LOG,
+            event,
+        })),
+        ...(room.webhooks ?? [])
+            .filter((webhook) => webhook.events.length === 0 || webhook.events.includes(type))
+            .map((webhook) => ({
+                webhookId: webhook.id,
+                url: webhook.url,
+                secret: webhook.secret ?? '',
+                deliveryLog: room.id,
+                event,
+            })),
+    ];
+
+    if (jobs.length > 0) {
+        await webhookQueue.addBulk(jobs.map((job) => ({ name: type, data: job })));
+    }
+}
+
+/**
+ * Reads the most recent delivery attempts, newest first.
+ * @param deliveryLog A room id, or SERVER_DELIVERY_LOG.
+ */
+export async function getWebhookDeliveries(deliveryLog: string): Promise<WebhookDelivery[]> {
+    const deliveries = await connection.lrange(getDeliveryLogKey(deliveryLog), 0, -1);
+    return deliveries.map((delivery) => JSON.parse(delivery));
+}
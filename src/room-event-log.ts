@@ -0,0 +1,225 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import mongoose from 'mongoose';
+
+import { ErrorCode, RoomError } from '@/errors';
+import { RoomEventModel } from '@/mongodb-sync/room-event.schema';
+import type { StreamEntry } from '@/room-store';
+import type { ClientMessageType, Room, RoomEvent } from '@/types';
+import { createContextLogger } from '@/utils/logger';
+import { applyRoomPatch, diffRoomState } from '@/utils/room-patch';
+
+import { redis } from './redis';
+
+const ROOM_EVENT_LOG_SIZE = parseInt(process.env.ROOM_EVENT_LOG_SIZE || '10000'); // default last 10000 events per room
+const ROOM_EVENT_LOG_TTL = parseInt(process.env.ROOM_EVENT_LOG_TTL || '604800'); // seconds, default 7 days
+const ROOM_EVENT_LOG_MONGODB = process.env.ROOM_EVENT_LOG_MONGODB === 'true';
+const REPLAY_BATCH_SIZE = 500;
+
+const logger = createContextLogger('RoomEventLog');
+
+// Redis stream of the events of a room, one JSON encoded event per entry
+const getRoomEventsKey = (roomId: string): string => `roomEvents:${roomId}`;
+const EVENT_FIELD = 'event';
+
+interface RoomCommand {
+    // Client id of the sender
+    actor: string;
+    // The command as received
+    message: { type: ClientMessageType } & Record<string, unknown>;
+}
+
+// The command being handled, the room writes made while it runs are logged as its events
+const roomCommands = new AsyncLocalStorage<RoomCommand>();
+
+// Message fields and secrets that are not part of what a command did
+const OMITTED_PAYLOAD_FIELDS = [
+    'id',
+    'timestamp',
+    'requiresAck',
+    'type',
+    'password',
+    'sessionToken',
+];
+
+/**
+ * State of a room as kept in the log, without the password and the fields that are only
+ * needed server side, since the log can be read by moderators.
+ */
+function toLoggedState(room: Room | null): Record<string, unknown> {
+    if (!room) {
+        return {};
+    }
+
+    const { password, ...state } = room;
+    return JSON.parse(
+        JSON.stringify({
+            ...state,
+            bans: room.bans?.map(({ ip, ...ban }) => ban) ?? [],
+            webhooks: room.webhooks?.map(({ secret, ...webhook }) => webhook) ?? [],
+        }),
+    );
+}
+
+/**
+ * Handles a command so that the room writes it makes are logged as its events, one per
+ * write, see toRoomEventEntry.
+ * @param actor Client id of the sender.
+ * @param message The command as received.
+ */
+export function runRoomCommand<T>(
+    actor: string,
+    message: RoomCommand['message'],
+    run: () => Promise<T>,
+): Promise<T> {
+    return roomCommands.run({ actor, message }, run);
+}
+
+// For work a command leaves for later, e.g. a timer, which is not part of the command
+export function detachFromRoomCommand<T>(run: () => T): T {
+    return roomCommands.exit(run);
+}
+
+/**
+ * The event a write of the running command is logged as. It is built from the room before
+ * and after that very write and appended by the write itself, so the log holds the writes
+ * that happened, in the order of the room versions.
+ * @param before The room before the write, null when the write created it.
+ * @param after The room after the write, null when the room was closed.
+ * @returns Undefined outside of a command.
+ */
+export function toRoomEventEntry(before: Room | null, after: Room | null): StreamEntry | undefined {
+    const command = roomCommands.getStore();
+    const roomId = after?.id ?? before?.id;
+    if (!command || !roomId) {
+        return undefined;
+    }
+
+    const payload = Object.fromEntries(
+        Object.entries(command.message).filter(([key]) => !OMITTED_PAYLOAD_FIELDS.includes(key)),
+    );
+    const event: Omit<RoomEvent, 'id'> = {
+        roomId,
+        actor: command.actor,
+        type: command.message.type,
+        payload,
+        version: after?.version ?? before?.version ?? 0,
+        occurredAt: Date.now(),
+        patch: diffRoomState(toLoggedState(before), toLoggedState(after)),
+    };
+
+    return {
+        key: getRoomEventsKey(roomId),
+        field: EVENT_FIELD,
+        value: JSON.stringify(event),
+        maxLength: ROOM_EVENT_LOG_SIZE,
+        ttl: ROOM_EVENT_LOG_TTL,
+    };
+}
+
+// Keeps an event appended to the log in MongoDB too, when enabled
+export function persistRoomEvent({ entry, id }: { entry: StreamEntry; id: string }): void {
+    if (!ROOM_EVENT_LOG_MONGODB || mongoose.connection.readyState !== 1) {
+        return;
+    }
+
+    const event: Omit<RoomEvent, 'id'> = JSON.parse(entry.value);
+    RoomEventModel.create({ ...event, id, patch: JSON.stringify(event.patch) }).catch((error) => {
+        logger.error('Failed to persist room event', {
+            roomId: event.roomId,
+            type: event.type,
+            error,
+        });
+    });
+}
+
+/**
+ * Appends the event of a change made without a room write, i.e. creating or closing the
+ * room, which nothing else writes at that point. The change has been made by then, so
+ * failing to log it is not reported as the command failing.
+ * @param before The room before the change, null when the command created it.
+ * @param after The room after the change, null when the command closed it.
+ */
+export async function appendRoomEvent(before: Room | null, after: Room | null): Promise<void> {
+    const entry = toRoomEventEntry(before, after);
+    if (!entry) {
+        return;
+    }
+
+    try {
+        const [[, id]] = (await redis
+            .multi()
+            .xadd(entry.key, 'MAXLEN', '~', entry.maxLength, '*', entry.field, entry.value)
+            .expire(entry.key, entry.ttl)
+            .exec()) as [[Error | null, string]];
+        persistRoomEvent({ entry, id });
+    } catch (error) {
+        logger.error('Failed to append room event', { key: entry.key, error });
+    }
+}
+
+/**
+ * Reads events of a room, oldest first.
+ * @param roomId The room to read.
+ * @param after Stream id of the last event already read, to page through the log.
+ * @param limit Maximum number of events returned.
+ */
+export async function getRoomEvents(
+    roomId: string,
+    after?: string,
+    limit = 100,
+): Promise<RoomEvent[]> {
+    const entries = await redis.xrange(
+        getRoomEventsKey(roomId),
+        after ? `(${after}` : '-',
+        '+',
+        'COUNT',
+        limit,
+    );
+    return entries.map(([id, fields]) => ({ ...JSON.parse(fields[1]), id }));
+}
+
+/**
+ * Rebuilds the state of a room by replaying the patches of its events from its creation.
+ * Changes the server makes without a command, e.g. dropping a member after the reconnect
+ * grace period, are not in the log and are missing from the rebuilt state.
+ * @param roomId The room to rebuild.
+ * @param version Replays every event up to this room version, the whole log when omitted.
+ * @returns The state and the version it was rebuilt at.
+ * @throws {RoomError} INVALID_MESSAGE when the log no longer starts at the room creation.
+ */
+export async function rebuildRoomState(
+    roomId: string,
+    version = Infinity,
+): Promise<{ version: number; room: Record<string, unknown> }> {
+    const state: Record<string, unknown> = {};
+    let rebuiltVersion = 0;
+    let after: string | undefined;
+
+    while (true) {
+        const events = await getRoomEvents(roomId, after, REPLAY_BATCH_SIZE);
+        if (!after && events[0]?.type !== 'createRoom') {
+            throw new RoomError(
+                ErrorCode.INVALID_MESSAGE,
+                'The event log no longer reaches back to the creation of the room',
+            );
+        }
+
+        for (const event of events) {
+            if (event.version > version) {
+                return { version: rebuiltVersion, room: state };
+            }
+            applyRoomPatch(state, event.patch);
+            rebuiltVersion = event.version;
+        }
+
+        if (events.length < REPLAY_BATCH_SIZE) {
+            return { version: rebuiltVersion, room: state };
+        }
+        after = events[events.length - 1].id;
+    }
+}
+
+// Room ids are reused, a new room must not continue the log of a closed one
+export async function clearRoomEventLog(roomId: string): Promise<void> {
+    await redis.del(getRoomEventsKey(roomId));
+}
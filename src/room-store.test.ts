@@ -0,0 +1,216 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import type { Redis } from 'ioredis';
+import RedisMock from 'ioredis-mock';
+
+import { DEFAULT_ROOM_SETTINGS } from '@/permissions';
+import {
+    getRoomKey,
+    mutateRoom,
+    mutateRoomFields,
+    readRoom,
+    updateRoom,
+    writeRoom,
+    type RoomMutation,
+    type StreamEntry,
+} from '@/room-store';
+import type { Room, YouTubeVideo } from '@/types';
+import { createQueueEntry } from '@/utils/queue';
+
+const ROOM_ID = '123456';
+const CONCURRENT_WRITERS = 10;
+const EVENTS_KEY = `roomEvents:${ROOM_ID}`;
+
+function createRoom(): Room {
+    return {
+        id: ROOM_ID,
+        clients: ['host'],
+        videoQueue: [],
+        historyQueue: [],
+        volume: 100,
+        pitch: 0,
+        playbackRate: 1,
+        playingNow: null,
+        lastActivity: Date.now(),
+        creatorId: 'host',
+        isPlaying: false,
+        currentTime: 0,
+        playbackUpdatedAt: Date.now(),
+        roles: { host: 'host' },
+        settings: { ...DEFAULT_ROOM_SETTINGS },
+        bans: [],
+        mutedClients: [],
+        apiTokens: [],
+        webhooks: [],
+        skipVotes: [],
+        primaryPlayerId: null,
+        version: 0,
+    };
+}
+
+function createVideo(index: number): YouTubeVideo {
+    return { id: `video${index}`, title: `Video ${index}`, duration: 180 } as YouTubeVideo;
+}
+
+function toVersionEntry(previous: Room, room: Room): StreamEntry {
+    return {
+        key: EVENTS_KEY,
+        field: 'event',
+        value: JSON.stringify({ from: previous.version, to: room.version }),
+        maxLength: 1000,
+        ttl: 60,
+    };
+}
+
+describe('room mutations', () => {
+    let redis: Redis;
+
+    beforeEach(async () => {
+        redis = new RedisMock() as unknown as Redis;
+        await redis.flushall();
+        expect(await writeRoom(redis, null, createRoom())).toBe(true);
+    });
+
+    test('concurrent updates are all kept and get increasing versions', async () => {
+        let attempts = 0;
+        const addVideos = Array.from({ length: CONCURRENT_WRITERS }, (_, index) =>
+            updateRoom(redis, ROOM_ID, (room) => {
+                attempts++;
+                room.videoQueue.push(createQueueEntry(createVideo(index), 'host'));
+            }),
+        );
+        const setVolumes = Array.from({ length: CONCURRENT_WRITERS }, (_, index) =>
+            updateRoom(redis, ROOM_ID, (room) => {
+                attempts++;
+                room.volume = index;
+            }),
+        );
+
+        const results = (await Promise.all([...addVideos, ...setVolumes])) as RoomMutation[];
+        const versions = results.map(({ room }) => room.version).sort((a, b) => a - b);
+        const room = (await readRoom(redis, ROOM_ID))!.room;
+
+        // The writers did collide, so the retries are what kept every update
+        expect(attempts).toBeGreaterThan(results.length);
+        // Every write is based on the one before it, so each version was written exactly once
+        expect(versions).toEqual(Array.from({ length: results.length }, (_, index) => index + 1));
+        for (const { previous, room } of results) {
+            expect(room.version).toBe(previous.version + 1);
+        }
+
+        expect(room.version).toBe(results.length);
+        expect(room.videoQueue.map(({ video }) => video.id).sort()).toEqual(
+            Array.from({ length: CONCURRENT_WRITERS }, (_, index) => `video${index}`).sort(),
+        );
+        const lastVolumeChange = results
+            .slice(CONCURRENT_WRITERS)
+            .reduce((last, result) => (result.room.version > last.room.version ? result : last));
+        expect(room.volume).toBe(lastVolumeChange.room.volume);
+    });
+
+    test('a stored version never goes back while writers collide', async () => {
+        const observed: number[] = [];
+        let writing = true;
+        const observe = async () => {
+            while (writing) {
+                observed.push((await readRoom(redis, ROOM_ID))!.room.version);
+                // Lets the writers waiting to retry run
+                await Bun.sleep(1);
+            }
+        };
+
+        const observer = observe();
+        await Promise.all(
+            Array.from({ length: CONCURRENT_WRITERS }, (_, index) =>
+                updateRoom(redis, ROOM_ID, (room) => {
+                    room.videoQueue.push(createQueueEntry(createVideo(index), 'host'));
+                }),
+            ),
+        );
+        writing = false;
+        await observer;
+        observed.push((await readRoom(redis, ROOM_ID))!.room.version);
+
+        for (let index = 1; index < observed.length; index++) {
+            expect(observed[index]).toBeGreaterThanOrEqual(observed[index - 1]);
+        }
+        expect(observed.at(-1)).toBe(CONCURRENT_WRITERS);
+    });
+
+    test('entries are appended by successful writes only, in the order of the versions', async () => {
+        const results = (await Promise.all(
+            Array.from({ length: CONCURRENT_WRITERS }, (_, index) =>
+                updateRoom(
+                    redis,
+                    ROOM_ID,
+                    (room) => {
+                        room.volume = index;
+                    },
+                    toVersionEntry,
+                ),
+            ),
+        )) as RoomMutation[];
+
+        const entries = await redis.xrange(EVENTS_KEY, '-', '+');
+        expect(entries.map(([, [, value]]) => JSON.parse(value))).toEqual(
+            Array.from({ length: CONCURRENT_WRITERS }, (_, index) => ({
+                from: index,
+                to: index + 1,
+            })),
+        );
+        expect(results.map(({ appended }) => appended?.id).sort()).toEqual(
+            entries.map(([id]) => id).sort(),
+        );
+        expect(await redis.ttl(EVENTS_KEY)).toBeGreaterThan(0);
+    });
+
+    test('changes without a version bump keep the version', async () => {
+        await mutateRoom(redis, ROOM_ID, (room) => {
+            room.lastActivity = 0;
+        });
+
+        const room = (await readRoom(redis, ROOM_ID))!.room;
+        expect(room.lastActivity).toBe(0);
+        expect(room.version).toBe(0);
+    });
+
+    test('field changes write only those fields, and nothing when nothing changed', async () => {
+        await updateRoom(redis, ROOM_ID, (room) => {
+            room.videoQueue.push(createQueueEntry(createVideo(0), 'host'));
+        });
+        const revision = await redis.hget(getRoomKey(ROOM_ID), 'revision');
+
+        const unchanged = await mutateRoomFields(redis, ROOM_ID, ['currentTime'], () => {});
+        expect(unchanged).toEqual({ currentTime: 0 });
+        expect(await redis.hget(getRoomKey(ROOM_ID), 'revision')).toBe(revision);
+
+        await mutateRoomFields(redis, ROOM_ID, ['currentTime', 'isPlaying'], (room) => {
+            room.currentTime = 42;
+            room.isPlaying = true;
+        });
+        const room = (await readRoom(redis, ROOM_ID))!.room;
+        expect(room.currentTime).toBe(42);
+        expect(room.isPlaying).toBe(true);
+        expect(room.version).toBe(1);
+        expect(room.videoQueue.map(({ video }) => video.id)).toEqual(['video0']);
+    });
+
+    test('field changes and room updates that collide are all kept', async () => {
+        await Promise.all([
+            ...Array.from({ length: CONCURRENT_WRITERS }, (_, index) =>
+                updateRoom(redis, ROOM_ID, (room) => {
+                    room.videoQueue.push(createQueueEntry(createVideo(index), 'host'));
+                }),
+            ),
+            ...Array.from({ length: CONCURRENT_WRITERS }, () =>
+                mutateRoomFields(redis, ROOM_ID, ['currentTime'], (room) => {
+                    room.currentTime += 1;
+                }),
+            ),
+        ]);
+
+        const room = (await readRoom(redis, ROOM_ID))!.room;
+        expect(room.currentTime).toBe(CONCURRENT_WRITERS);
+        expect(room.videoQueue).toHaveLength(CONCURRENT_WRITERS);
+        expect(room.version).toBe(CONCURRENT_WRITERS);
+    });
+});
@@ -0,0 +1,612 @@
+import type { Redis } from 'ioredis';
+
+import { ErrorCode, RoomError } from '@/errors';
+import { DEFAULT_ROOM_SETTINGS } from '@/permissions';
+import type { Room } from '@/types';
+import { createContextLogger } from '@/utils/logger';
+import { DEFAULT_PITCH, DEFAULT_PLAYBACK_RATE } from '@/utils/playback';
+import { migrateQueueEntries } from '@/utils/queue';
+
+/**
+ * Redis layout of a room, so an operation only writes what it changed:
+ *
+ * room:<id>          hash of the scalar fields, one JSON encoded value per field
+ * room:<id>:clients  sorted set of the members, scored in join order
+ * room:<id>:queue    list of the JSON encoded queue entries
+ * room:<id>:history  list of the JSON encoded history entries
+ *
+ * The hash also holds a `revision`, incremented by every write, that writes compare against
+ * so a change based on a stale read is rejected as a whole.
+ */
+
+const logger = createContextLogger('RoomStore');
+
+const LIST_FIELDS = ['clients', 'videoQueue', 'historyQueue'] as const;
+const REVISION_FIELD = 'revision';
+const ROOM_MUTATION_MAX_ATTEMPTS = 20;
+
+export const getRoomKey = (roomId: string): string => `room:${roomId}`;
+const getRoomKeys = (roomId: string): string[] => [
+    getRoomKey(roomId),
+    `room:${roomId}:clients`,
+    `room:${roomId}:queue`,
+    `room:${roomId}:history`,
+];
+
+// The hash of a room, the other keys of the layout have a second colon
+const ROOM_KEY_PATTERN = /^room:[^:]+$/;
+
+/**
+ * A room as read, with the stored values its changes are computed against.
+ */
+export interface RoomSnapshot {
+    room: Room;
+    revision: string;
+    fields: Record<string, string>;
+    clients: string[];
+    queue: string[];
+    history: string[];
+}
+
+// Replaces `deleteCount` items at `start` of a list that had `length` items
+interface ListSplice {
+    start: number;
+    deleteCount: number;
+    items: string[];
+    length: number;
+}
+
+// Returning false leaves the room as it is
+export type RoomMutator = (room: Room) => void | boolean | Promise<void | boolean>;
+
+/**
+ * An entry appended to a Redis stream by the same atomic step that writes a room, so the
+ * entries of successive writes are in the order of the writes.
+ */
+export interface StreamEntry {
+    key: string;
+    field: string;
+    value: string;
+    maxLength: number;
+    // Seconds the stream is kept after its last entry
+    ttl: number;
+}
+
+// Builds the entry a write appends from the room before and after the write, if any
+export type StreamEntryBuilder = (previous: Room, room: Room) => StreamEntry | undefined;
+
+export interface RoomMutation {
+    previous: Room;
+    room: Room;
+    // The entry the write appended, with its id in the stream
+    appended?: { entry: StreamEntry; id: string };
+}
+
+// The fields kept in the hash of a room, the lists have keys of their own
+export type RoomField = Exclude<keyof Room, (typeof LIST_FIELDS)[number]>;
+
+// Some fields of a room as read, with the revision they were read at
+export interface RoomFieldsSnapshot<K extends RoomField> {
+    room: Pick<Room, K>;
+    revision: string;
+}
+
+interface RoomChanges {
+    set: [string, string][];
+    unset: string[];
+    addedClients: string[];
+    removedClients: string[];
+    queue?: ListSplice;
+    history?: ListSplice;
+}
+
+// ARGV[1] is the revision the changes are based on, '' for a room that must not exist yet.
+// ARGV[2] set to 'replace' drops whatever is stored instead of comparing revisions.
+// The changes follow, as laid out by encodeChanges, then the stream entry when KEYS[5] is set.
+const WRITE_ROOM_SCRIPT = `
+if ARGV[2] == 'replace' then
+    redis.call('DEL', KEYS[1], KEYS[2], KEYS[3], KEYS[4])
+elseif (redis.call('HGET', KEYS[1], 'revision') or '') ~= ARGV[1] then
+    return 0
+end
+
+local position = 2
+local function take()
+    position = position + 1
+    return ARGV[position]
+end
+
+local function takeList()
+    local items = {}
+    for i = 1, tonumber(take()) do
+        items[i] = take()
+    end
+    return items
+end
+
+local function takeSplice()
+    local start = take()
+    if start == '' then
+        return nil
+    end
+    local deleteCount = tonumber(take())
+    local length = tonumber(take())
+    return { start = tonumber(start), deleteCount = deleteCount, length = length, items = takeList() }
+end
+
+local function push(command, key, items)
+    for i = 1, #items, 1000 do
+        redis.call(command, key, unpack(items, i, math.min(i + 999, #items)))
+    end
+end
+
+local function splice(key, change)
+    local tailStart = change.start + change.deleteCount
+    if change.start == 0 and change.deleteCount == 0 then
+        local reversed = {}
+        for i = #change.items, 1, -1 do
+            reversed[#reversed + 1] = change.items[i]
+        end
+        push('LPUSH', key, reversed)
+        return
+    end
+
+    local tail = {}
+    if tailStart < change.length then
+        if change.start == 0 and #change.items == 0 then
+            redis.call('LTRIM', key, tailStart, -1)
+            return
+        end
+        tail = redis.call('LRANGE', key, tailStart, -1)
+    end
+
+    if change.start == 0 then
+        redis.call('DEL', key)
+    else
+        redis.call('LTRIM', key, 0, change.start - 1)
+    end
+    push('RPUSH', key, change.items)
+    push('RPUSH', key, tail)
+end
+
+local set = takeList()
+for i = 1, #set, 2 do
+    redis.call('HSET', KEYS[1], set[i], set[i + 1])
+end
+for _, field in ipairs(takeList()) do
+    redis.call('HDEL', KEYS[1], field)
+end
+redis.call('HINCRBY', KEYS[1], 'revision', 1)
+
+for _, clientId in ipairs(takeList()) do
+    redis.call('ZREM', KEYS[2], clientId)
+end
+for _, clientId in ipairs(takeList()) do
+    local last = redis.call('ZREVRANGE', KEYS[2], 0, 0, 'WITHSCORES')
+    redis.call('ZADD', KEYS[2], (tonumber(last[2]) or 0) + 1, clientId)
+end
+
+local queue = takeSplice()
+if queue then
+    splice(KEYS[3], queue)
+end
+local history = takeSplice()
+if history then
+    splice(KEYS[4], history)
+end
+
+if KEYS[5] then
+    local maxLength = take()
+    local field = take()
+    local value = take()
+    local id = redis.call('XADD', KEYS[5], 'MAXLEN', '~', maxLength, '*', field, value)
+    redis.call('EXPIRE', KEYS[5], take())
+    return id
+end
+return 1
+`;
+
+function encodeFields(room: Partial<Room>): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const [field, value] of Object.entries(room)) {
+        if (value !== undefined && !(LIST_FIELDS as readonly string[]).includes(field)) {
+            fields[field] = JSON.stringify(value);
+        }
+    }
+    return fields;
+}
+
+// The smallest single splice turning `previous` into `next`, undefined when they are equal
+function diffList(previous: string[], next: string[]): ListSplice | undefined {
+    const maxCommon = Math.min(previous.length, next.length);
+
+    let prefix = 0;
+    while (prefix < maxCommon && previous[prefix] === next[prefix]) {
+        prefix++;
+    }
+    if (prefix === previous.length && prefix === next.length) {
+        return undefined;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < maxCommon - prefix &&
+        previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    return {
+        start: prefix,
+        deleteCount: previous.length - prefix - suffix,
+        items: next.slice(prefix, next.length - suffix),
+        length: previous.length,
+    };
+}
+
+function diffRoom(snapshot: RoomSnapshot | null, room: Room): RoomChanges {
+    const previousFields = snapshot?.fields ?? {};
+    const fields = encodeFields(room);
+    const previousClients = snapshot?.clients ?? [];
+
+    return {
+        set: Object.entries(fields).filter(([field, value]) => previousFields[field] !== value),
+        unset: Object.keys(previousFields).filter((field) => !(field in fields)),
+        addedClients: room.clients.filter((clientId) => !previousClients.includes(clientId)),
+        removedClients: previousClients.filter((clientId) => !room.clients.includes(clientId)),
+        queue: diffList(
+            snapshot?.queue ?? [],
+            room.videoQueue.map((entry) => JSON.stringify(entry)),
+        ),
+        history: diffList(
+            snapshot?.history ?? [],
+            room.historyQueue.map((entry) => JSON.stringify(entry)),
+        ),
+    };
+}
+
+// The changes as script arguments, every list preceded by its length and a missing splice
+// as a single empty argument
+function encodeChanges(changes: RoomChanges): string[] {
+    const list = (items: string[]) => [String(items.length), ...items];
+    const splice = (change?: ListSplice) =>
+        change
+            ? [change.start, change.deleteCount, change.length]
+                  .map(String)
+                  .concat(list(change.items))
+            : [''];
+
+    return [
+        ...list(changes.set.flat()),
+        ...list(changes.unset),
+        ...list(changes.removedClients),
+        ...list(changes.addedClients),
+        ...splice(changes.queue),
+        ...splice(changes.history),
+    ];
+}
+
+/**
+ * Reads every part of a room in one transaction.
+ * @returns The room, or null when it does not exist.
+ */
+export async function readRoom(client: Redis, roomId: string): Promise<RoomSnapshot | null> {
+    const [hashKey, clientsKey, queueKey, historyKey] = getRoomKeys(roomId);
+    const results = await client
+        .multi()
+        .hgetall(hashKey)
+        .zrange(clientsKey, 0, -1)
+        .lrange(queueKey, 0, -1)
+        .lrange(historyKey, 0, -1)
+        .exec();
+
+    // A failed read, e.g. WRONGTYPE on a room not migrated yet, must not pass for a missing room
+    const error = results?.find(([error]) => error)?.[0];
+    if (!results || error) {
+        throw error ?? new Error(`Failed to read room ${roomId}`);
+    }
+
+    const [[, hash], [, clients], [, queue], [, history]] = results as [
+        [null, Record<string, string>],
+        [null, string[]],
+        [null, string[]],
+        [null, string[]],
+    ];
+    if (!hash || !(REVISION_FIELD in hash)) {
+        return null;
+    }
+
+    const { [REVISION_FIELD]: revision, ...fields } = hash;
+    const room = Object.fromEntries(
+        Object.entries(fields).map(([field, value]) => [field, JSON.parse(value)]),
+    ) as Room;
+    room.clients = clients;
+    room.videoQueue = queue.map((entry) => JSON.parse(entry));
+    room.historyQueue = history.map((entry) => JSON.parse(entry));
+
+    return { room, revision, fields, clients, queue, history };
+}
+
+// Fills in the scalar fields rooms stored by older versions are missing
+function fillRoomDefaults(room: Partial<Room>): void {
+    // Rooms stored before roles were introduced only know their creator
+    room.roles ??= { [room.creatorId!]: 'host' };
+    room.settings = { ...DEFAULT_ROOM_SETTINGS, ...room.settings };
+    room.bans ??= [];
+    room.mutedClients ??= [];
+    room.apiTokens ??= [];
+    room.webhooks ??= [];
+    room.skipVotes ??= [];
+    room.playbackUpdatedAt ??= room.lastActivity;
+    room.primaryPlayerId ??= null;
+    room.version ??= 0;
+    room.pitch ??= DEFAULT_PITCH;
+    room.playbackRate ??= DEFAULT_PLAYBACK_RATE;
+}
+
+/**
+ * Reads a room and fills in what rooms stored by older versions are missing.
+ * @returns The room, or null when it does not exist.
+ * @throws {RoomError} INTERNAL_ERROR when the room cannot be read.
+ */
+export async function loadRoom(client: Redis, roomId: string): Promise<RoomSnapshot | null> {
+    try {
+        const snapshot = await readRoom(client, roomId);
+        if (!snapshot) {
+            return null;
+        }
+
+        fillRoomDefaults(snapshot.room);
+        migrateQueueEntries(snapshot.room);
+        return snapshot;
+    } catch (error) {
+        logger.error('Failed to read room data', { roomId, error });
+        throw new RoomError(ErrorCode.INTERNAL_ERROR, 'Failed to read room data');
+    }
+}
+
+// Runs the write script, returns null when the room was not written, otherwise the id of
+// the appended entry
+async function runWriteScript(
+    client: Redis,
+    roomId: string,
+    revision: string,
+    mode: '' | 'replace',
+    changes: RoomChanges,
+    entry?: StreamEntry,
+): Promise<string | null> {
+    const keys = getRoomKeys(roomId);
+    const args = [revision, mode, ...encodeChanges(changes)];
+    if (entry) {
+        keys.push(entry.key);
+        args.push(String(entry.maxLength), entry.field, entry.value, String(entry.ttl));
+    }
+
+    const result = await client.eval(WRITE_ROOM_SCRIPT, keys.length, ...keys, ...args);
+    return result === 0 ? null : String(result);
+}
+
+/**
+ * Writes what changed between a snapshot and the room, as one atomic step.
+ * @param snapshot What the changes are based on, null to create the room.
+ * @returns Whether the room was written, false when it changed since the snapshot was read,
+ * or already exists when creating it.
+ */
+export async function writeRoom(
+    client: Redis,
+    snapshot: RoomSnapshot | null,
+    room: Room,
+): Promise<boolean> {
+    const changes = diffRoom(snapshot, room);
+    return (await runWriteScript(client, room.id, snapshot?.revision ?? '', '', changes)) !== null;
+}
+
+/**
+ * Optimistic concurrency for rooms: reads the room, applies `mutate` and writes what it
+ * changed only if nobody wrote the room in between, otherwise starts over from the fresh
+ * room. `mutate` may therefore run more than once and must not have side effects besides
+ * changing the room, checks that throw inside it see the state the write is based on.
+ * @param toEntry Builds the entry the write appends, from the very rooms the write is
+ * between, so an entry is only appended when its write succeeds.
+ * @returns The room before and after the change, or null when `mutate` returned false.
+ * @throws {RoomError} ROOM_NOT_FOUND when the room does not exist.
+ * @throws {RoomError} ROOM_BUSY when every attempt collided with another write.
+ */
+export async function mutateRoom(
+    client: Redis,
+    roomId: string,
+    mutate: RoomMutator,
+    toEntry?: StreamEntryBuilder,
+): Promise<RoomMutation | null> {
+    for (let attempt = 1; attempt <= ROOM_MUTATION_MAX_ATTEMPTS; attempt++) {
+        const snapshot = await loadRoom(client, roomId);
+        if (!snapshot) {
+            throw new RoomError(ErrorCode.ROOM_NOT_FOUND);
+        }
+
+        const previous = structuredClone(snapshot.room);
+        if ((await mutate(snapshot.room)) === false) {
+            return null;
+        }
+
+        const entry = toEntry?.(previous, snapshot.room);
+        const changes = diffRoom(snapshot, snapshot.room);
+        const id = await runWriteScript(client, roomId, snapshot.revision, '', changes, entry);
+        if (id !== null) {
+            return { previous, room: snapshot.room, appended: entry && { entry, id } };
+        }
+
+        // Spread the retries so the writers that collided do not collide again
+        await Bun.sleep(Math.random() * 5 * attempt);
+    }
+
+    logger.warn('Room mutation kept colliding', { roomId });
+    throw new RoomError(ErrorCode.ROOM_BUSY);
+}
+
+/**
+ * Changes the room like mutateRoom and bumps its version, for changes clients are told about.
+ * @returns The room before and after the change, or null when `mutate` returned false.
+ */
+export async function updateRoom(
+    client: Redis,
+    roomId: string,
+    mutate: RoomMutator,
+    toEntry?: StreamEntryBuilder,
+): Promise<RoomMutation | null> {
+    return mutateRoom(
+        client,
+        roomId,
+        async (room) => {
+            if ((await mutate(room)) === false) {
+                return false;
+            }
+            room.version += 1;
+        },
+        toEntry,
+    );
+}
+
+/**
+ * Reads only some fields of a room, for frequent operations that have no use for its lists.
+ * What rooms stored by older versions are missing is filled in as by loadRoom, the roles
+ * default to the creator only when `creatorId` is read as well.
+ * @returns The fields, or null when the room does not exist.
+ * @throws {RoomError} INTERNAL_ERROR when the room cannot be read.
+ */
+export async function readRoomFields<K extends RoomField>(
+    client: Redis,
+    roomId: string,
+    fields: readonly K[],
+): Promise<RoomFieldsSnapshot<K> | null> {
+    try {
+        const [revision, ...values] = await client.hmget(
+            getRoomKey(roomId),
+            REVISION_FIELD,
+            ...fields,
+        );
+        if (revision === null) {
+            return null;
+        }
+
+        const room: Partial<Room> = Object.fromEntries(
+            fields.flatMap((field, index) =>
+                values[index] === null ? [] : [[field, JSON.parse(values[index])]],
+            ),
+        );
+        fillRoomDefaults(room);
+
+        return {
+            room: Object.fromEntries(fields.map((field) => [field, room[field]])) as Pick<Room, K>,
+            revision,
+        };
+    } catch (error) {
+        logger.error('Failed to read room data', { roomId, error });
+        throw new RoomError(ErrorCode.INTERNAL_ERROR, 'Failed to read room data');
+    }
+}
+
+/**
+ * Optimistic concurrency like mutateRoom for changes to a few fields of a room, which are
+ * the only ones read and written. Nothing is written when `mutate` changes nothing, the
+ * version is not bumped and no entry is appended.
+ * @returns The fields after the change, or null when `mutate` returned false.
+ * @throws {RoomError} ROOM_NOT_FOUND when the room does not exist.
+ * @throws {RoomError} ROOM_BUSY when every attempt collided with another write.
+ */
+export async function mutateRoomFields<K extends RoomField>(
+    client: Redis,
+    roomId: string,
+    fields: readonly K[],
+    mutate: (room: Pick<Room, K>) => void | boolean,
+): Promise<Pick<Room, K> | null> {
+    for (let attempt = 1; attempt <= ROOM_MUTATION_MAX_ATTEMPTS; attempt++) {
+        const snapshot = await readRoomFields(client, roomId, fields);
+        if (!snapshot) {
+            throw new RoomError(ErrorCode.ROOM_NOT_FOUND);
+        }
+
+        const previous = encodeFields(snapshot.room);
+        if (mutate(snapshot.room) === false) {
+            return null;
+        }
+
+        const encoded = encodeFields(snapshot.room);
+        const changes: RoomChanges = {
+            set: Object.entries(encoded).filter(([field, value]) => previous[field] !== value),
+            unset: Object.keys(previous).filter((field) => !(field in encoded)),
+            addedClients: [],
+            removedClients: [],
+        };
+        if (changes.set.length === 0 && changes.unset.length === 0) {
+            return snapshot.room;
+        }
+
+        if ((await runWriteScript(client, roomId, snapshot.revision, '', changes)) !== null) {
+            return snapshot.room;
+        }
+
+        // Spread the retries so the writers that collided do not collide again
+        await Bun.sleep(Math.random() * 5 * attempt);
+    }
+
+    logger.warn('Room mutation kept colliding', { roomId });
+    throw new RoomError(ErrorCode.ROOM_BUSY);
+}
+
+// Overwrites whatever is stored for the room, for restores and the migration
+export async function replaceRoom(client: Redis, room: Room): Promise<void> {
+    await runWriteScript(client, room.id, '', 'replace', diffRoom(null, room));
+}
+
+export async function deleteRoom(client: Redis, roomId: string): Promise<void> {
+    await client.del(...getRoomKeys(roomId));
+}
+
+export async function getRoomVersion(client: Redis, roomId: string): Promise<number | undefined> {
+    const version = await client.hget(getRoomKey(roomId), 'version');
+    return version ? JSON.parse(version) : undefined;
+}
+
+export async function listRoomIds(client: Redis): Promise<string[]> {
+    const keys = await client.keys('room:*');
+    return keys.filter((key) => ROOM_KEY_PATTERN.test(key)).map((key) => key.slice(5));
+}
+
+/**
+ * Converts rooms stored as a single JSON string, as before this layout, to the layout.
+ * Rooms already converted are left alone, so it is safe to run on every start.
+ * @returns The number of migrated rooms.
+ */
+export async function migrateRoomLayout(client: Redis): Promise<number> {
+    let migrated = 0;
+
+    for (const roomId of await listRoomIds(client)) {
+        const key = getRoomKey(roomId);
+        if ((await client.type(key)) !== 'string') {
+            continue;
+        }
+
+        try {
+            const roomData = await client.get(key);
+            if (!roomData) {
+                continue;
+            }
+
+            const room: Room = { ...JSON.parse(roomData), id: roomId };
+            room.clients ??= [];
+            // Done once here, converting on every read would give the entries new ids each time
+            migrateQueueEntries(room);
+            await replaceRoom(client, room);
+            migrated++;
+        } catch (error) {
+            logger.error('Failed to migrate room', { roomId, error });
+        }
+    }
+
+    if (migrated > 0) {
+        logger.info(`Migrated ${migrated} rooms to the hash layout`);
+    }
+
+    return migrated;
+}
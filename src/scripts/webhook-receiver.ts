@@ -0,0 +1,40 @@
+/**
+ * Local receiver to try webhooks end to end. It logs every delivery and checks its signature.
+ *
+ * bun run webhook-receiver
+ * WEBHOOK_SECRET=<secret> WEBHOOK_RECEIVER_PORT=9000 WEBHOOK_RECEIVER_FAIL_RATE=0.5 bun run webhook-receiver
+ *
+ * Point WEBHOOK_URLS at it, or set WEBHOOK_ALLOW_PRIVATE_URLS=true and register
+ * http://localhost:9000 with the addWebhook message. A failure rate above 0 answers some
+ * deliveries with HTTP 500 to exercise the retries.
+ */
+import { WEBHOOK_SIGNATURE_HEADER, verifyWebhookSignature } from '@/utils/webhook';
+
+const secret = process.env.WEBHOOK_SECRET || '';
+const port = parseInt(process.env.WEBHOOK_RECEIVER_PORT || '9000');
+const failRate = parseFloat(process.env.WEBHOOK_RECEIVER_FAIL_RATE || '0');
+
+Bun.serve({
+    port,
+    async fetch(request) {
+        const body = await request.text();
+        const signature = request.headers.get(WEBHOOK_SIGNATURE_HEADER) ?? '';
+        const verified = secret ? verifyWebhookSignature(secret, signature, body) : 'not checked';
+
+        console.log(
+            `[${new Date().toISOString()}] ${request.headers.get('X-Vkara-Event')} ` +
+                `delivery=${request.headers.get('X-Vkara-Delivery')} signature=${verified}`,
+        );
+        console.log(body);
+
+        if (verified === false) {
+            return new Response('Invalid signature', { status: 401 });
+        }
+        if (Math.random() < failRate) {
+            return new Response('Simulated failure', { status: 500 });
+        }
+        return new Response('OK');
+    },
+});
+
+console.log(`Webhook receiver listening on http://localhost:${port}`);
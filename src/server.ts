@@ -12,20 +12,145 @@ import {
     cleanUpRoomField,
     cleanUpVideoField,
     generateRandomNumber,
+    getRequestIp,
     isNullish,
     shuffleArray,
 } from '@/utils/common';
 import { wsLogger, roomLogger, createContextLogger } from '@/utils/logger';
+import {
+    DEFAULT_PITCH,
+    DEFAULT_PLAYBACK_RATE,
+    getPlaybackPosition,
+    setPlayback,
+    type PlaybackState,
+} from '@/utils/playback';
+import { diffRoomState } from '@/utils/room-patch';
+import { validateWebhookUrl } from '@/utils/webhook';
+import {
+    addClockSample,
+    computeClockSample,
+    estimateClock,
+    type ClockExchange,
+    type ClockSample,
+} from '@/utils/clock-sync';
 import { ErrorCode, RoomError } from '@/errors';
+import { MAX_ROOM_EVENTS_PAGE, parseClientMessage } from '@/client-message.schema';
+import {
+    LEGACY_PROTOCOL,
+    MIN_PROTOCOL_VERSION,
+    PROTOCOL_VERSION,
+    negotiateProtocol,
+    type NegotiatedProtocol,
+} from '@/protocol';
+import {
+    DEFAULT_ROOM_SETTINGS,
+    HOST_SUCCESSIONS,
+    QUEUE_MODES,
+    compareRoles,
+    getClientRole,
+    getRequiredRole,
+    MUTED_MESSAGE_TYPES,
+    OWNER_CHECKED_MESSAGE_TYPES,
+    hasPermission,
+    isBanned,
+    isRoomRole,
+    isRoomScopedMessage,
+} from '@/permissions';
+import {
+    clearPresence,
+    getDefaultDisplayName,
+    getPresence,
+    getPresenceRoster,
+    removePresence,
+    setPresence,
+    validateProfile,
+} from '@/presence';
+import {
+    appendRoomEvent,
+    clearRoomEventLog,
+    detachFromRoomCommand,
+    getRoomEvents,
+    persistRoomEvent,
+    rebuildRoomState,
+    runRoomCommand,
+    toRoomEventEntry,
+} from '@/room-event-log';
+import {
+    deleteRoom,
+    getRoomKey,
+    getRoomVersion,
+    loadRoom,
+    migrateRoomLayout,
+    mutateRoom as mutateStoredRoom,
+    mutateRoomFields,
+    readRoomFields,
+    updateRoom as updateStoredRoom,
+    writeRoom,
+    type RoomMutation,
+    type RoomMutator,
+} from '@/room-store';
+import {
+    PENDING_OUTCOME,
+    claimMessage,
+    getProcessedMessageKey,
+    recordOutcome,
+    releaseMessage,
+} from '@/message-dedup';
 import { scheduleCleanupJobs } from '@/queues/cleanup';
 import { scheduleSyncRedisToDb } from '@/queues/sync';
-import type { ClientMessage, ServerMessage, Room, ClientInfo, YouTubeVideo } from '@/types';
+import {
+    WEBHOOK_ALLOW_PRIVATE_URLS,
+    enqueueWebhookEvent,
+    getWebhookDeliveries,
+} from '@/queues/webhook';
+import type {
+    ClientMessage,
+    ClientMessageType,
+    ServerMessage,
+    Room,
+    ClientInfo,
+    ClientProfile,
+    PresenceEntry,
+    ProtocolFeature,
+    ApiToken,
+    RoomWebhook,
+    WebhookEventType,
+    EntryTrim,
+    MessageOutcome,
+    QueueEntry,
+    QueueEntryTarget,
+    QueueOperation,
+    RoomRole,
+    RoomSettings,
+    YouTubeVideo,
+} from '@/types';
 
 import { redis } from './redis';
-import { checkEmbeddable, searchYoutubeiElysia } from './youtubei';
+import {
+    buildFairQueue,
+    createQueueEntry,
+    findQueueEntry,
+    getSingerQueue,
+    moveQueueEntry,
+    moveToHistory,
+    playEntryNow,
+    startEntry,
+    validateEntryTrim,
+    sortQueueByVotes,
+} from './utils/queue';
+import { checkEmbeddable, getRelatedVideos, searchYoutubeiElysia } from './youtubei';
 
 const serverLogger = createContextLogger('Server');
 const IS_ENCRYPTED_PASSWORD = process.env.IS_ENCRYPTED_PASSWORD === 'true';
+const SESSION_TTL = parseInt(process.env.SESSION_TTL || '86400'); // seconds, default 24 hours
+const RECONNECT_GRACE_PERIOD = parseInt(process.env.RECONNECT_GRACE_PERIOD || '30') * 1000; // default 30 seconds
+const HOST_VOTE_DURATION = parseInt(process.env.HOST_VOTE_DURATION || '30') * 1000; // default 30 seconds
+const PRESENCE_AWAY_TIMEOUT = parseInt(process.env.PRESENCE_AWAY_TIMEOUT || '60') * 1000; // default 60 seconds
+const AUTOPLAY_HISTORY_WINDOW = parseInt(process.env.AUTOPLAY_HISTORY_WINDOW || '50'); // default last 50 songs
+const SYNC_BEACON_INTERVAL = parseInt(process.env.SYNC_BEACON_INTERVAL || '5') * 1000; // default 5 seconds
+const SYNC_DRIFT_TOLERANCE = parseFloat(process.env.SYNC_DRIFT_TOLERANCE || '1'); // seconds, default 1 second
+const MESSAGE_DEDUP_WINDOW = parseInt(process.env.MESSAGE_DEDUP_WINDOW || '120'); // seconds, default 2 minutes
+const MAX_ROOM_WEBHOOKS = 10;
 
 if (process.env.MONGODB_URI) {
     mongoose
@@ -56,7 +181,22 @@ if (process.env.MONGODB_URI) {
         });
 }
 
+// Sockets keyed by the durable client id of the session they are bound to
 export const wsConnections = new Map<string, ElysiaWS>();
+// Socket id -> durable client id, a socket is re-bound when it resumes a session
+const wsClientIds = new Map<string, string>();
+// Disconnected clients waiting for the grace period before leaving their room
+const pendingLeaves = new Map<string, ReturnType<typeof setTimeout>>();
+// Last ping of every connected room member, used to mark silent clients as away
+const lastPings = new Map<string, number>();
+// Running host elections keyed by room id
+const hostVoteTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// Last pong of every client, completed by the receive time reported with its next ping
+const clockExchanges = new Map<string, ClockExchange>();
+// Recent clock samples of every connected client
+const clockSamples = new Map<string, ClockSample[]>();
+// Socket id -> protocol agreed in its `hello`, sockets without one speak LEGACY_PROTOCOL
+const wsProtocols = new Map<string, NegotiatedProtocol>();
 
 // Core utilities
 export function sendToClient(ws: ElysiaWS, message: ServerMessage): void {
@@ -67,20 +207,202 @@ export function sendToClient(ws: ElysiaWS, message: ServerMessage): void {
     }
 }
 
-function handleError(ws: ElysiaWS, error: Error | RoomError): void {
-    if (error instanceof RoomError) {
+// Who a room operation runs for: a socket, or an integration calling the REST API with a
+// room token, whose client id is the id of the caller
+type Caller = Pick<ElysiaWS, 'id'>;
+
+function getClientId(caller: Caller): string {
+    return wsClientIds.get(caller.id) ?? caller.id;
+}
+
+function supportsFeature(ws: ElysiaWS, feature: ProtocolFeature): boolean {
+    return (wsProtocols.get(ws.id) ?? LEGACY_PROTOCOL).features.includes(feature);
+}
+
+function bindClient(ws: ElysiaWS, clientId: string): void {
+    wsClientIds.set(ws.id, clientId);
+    wsConnections.set(clientId, ws);
+}
+
+function toMessageOutcome(error: Error | RoomError): MessageOutcome {
+    return error instanceof RoomError
+        ? { success: false, code: error.code, message: error.message }
+        : {
+              success: false,
+              code: ErrorCode.INTERNAL_ERROR,
+              message: 'An unexpected error occurred',
+          };
+}
+
+/**
+ * Reports the outcome of a message, as a `result` to clients that negotiated results. The
+ * others only hear about failures, as an error carrying the message id: `errorWithCode` for
+ * a RoomError and a plain `error` for anything unexpected, as before results existed.
+ * @param unexpected Whether the failure came from an error other than a RoomError.
+ */
+function reportOutcome(
+    ws: ElysiaWS,
+    messageId: string | undefined,
+    outcome: MessageOutcome,
+    unexpected = false,
+): void {
+    if (messageId && supportsFeature(ws, 'results')) {
+        sendToClient(ws, { type: 'result', messageId, ...outcome });
+    } else if (unexpected) {
+        sendToClient(ws, { type: 'error', message: outcome.message!, messageId });
+    } else if (!outcome.success) {
         sendToClient(ws, {
             type: 'errorWithCode',
-            code: error.code,
-            message: error.message,
+            code: outcome.code!,
+            message: outcome.message,
+            messageId,
+        });
+    }
+}
+
+function handleError(ws: ElysiaWS, error: Error | RoomError, messageId?: string): MessageOutcome {
+    if (!(error instanceof RoomError)) {
+        serverLogger.error('Unexpected error', { error, clientId: ws.id });
+    }
+
+    const outcome = toMessageOutcome(error);
+    reportOutcome(ws, messageId, outcome, !(error instanceof RoomError));
+    return outcome;
+}
+
+// Lets clients tell when the effect of their message shows up in a roomPatch
+async function getClientRoomVersion(caller: Caller): Promise<number | undefined> {
+    const roomId = await findRoomIdByClient(caller);
+    return roomId ? getRoomVersion(redis, roomId) : undefined;
+}
+
+// Id of a message that may have failed validation, so the failure can still be correlated
+function getRawMessageId(raw: unknown): string | undefined {
+    const id = raw && typeof raw === 'object' ? (raw as { id?: unknown }).id : undefined;
+    return typeof id === 'string' ? id : undefined;
+}
+
+// Session utilities
+async function createSession(ws: ElysiaWS, ip: string): Promise<void> {
+    const clientId = crypto.randomUUID();
+    const sessionToken = crypto.randomUUID();
+
+    bindClient(ws, clientId);
+
+    await Promise.all([
+        redis.set(`session:${sessionToken}`, clientId, 'EX', SESSION_TTL),
+        redis.hset(`client:${clientId}`, { sessionToken, ip, lastSeen: Date.now() }),
+    ]);
+
+    sendToClient(ws, { type: 'session', clientId, sessionToken });
+}
+
+/**
+ * Re-binds the socket to the client id behind `sessionToken`, dropping the fresh session
+ * issued on connect. Returns false when the token is unknown or expired.
+ */
+async function resumeSession(ws: ElysiaWS, sessionToken: string): Promise<boolean> {
+    const clientId = await redis.get(`session:${sessionToken}`);
+    if (!clientId) {
+        return false;
+    }
+
+    const currentClientId = getClientId(ws);
+    if (currentClientId !== clientId) {
+        // Discard the session issued on connect, it was never used for anything else
+        await leaveCurrentRoom(ws);
+        const [freshToken, ip] = await redis.hmget(
+            `client:${currentClientId}`,
+            'sessionToken',
+            'ip',
+        );
+        await Promise.all([
+            redis.del(`client:${currentClientId}`),
+            freshToken ? redis.del(`session:${freshToken}`) : Promise.resolve(),
+            // The resumed session keeps following the address the client connects from
+            ip ? redis.hset(`client:${clientId}`, 'ip', ip) : Promise.resolve(),
+        ]);
+        wsConnections.delete(currentClientId);
+
+        // A previous socket may still be open for this session, e.g. a half-closed connection
+        const staleWs = wsConnections.get(clientId);
+        bindClient(ws, clientId);
+        if (staleWs && staleWs.id !== ws.id) {
+            staleWs.close();
+        }
+    }
+
+    const pendingLeave = pendingLeaves.get(clientId);
+    if (pendingLeave) {
+        clearTimeout(pendingLeave);
+        pendingLeaves.delete(clientId);
+    }
+
+    await Promise.all([
+        redis.expire(`session:${sessionToken}`, SESSION_TTL),
+        redis.hset(`client:${clientId}`, { sessionToken, lastSeen: Date.now() }),
+    ]);
+
+    sendToClient(ws, { type: 'session', clientId, sessionToken });
+    return true;
+}
+
+/**
+ * Agrees on a protocol version and feature set with the client and answers with a `welcome`.
+ * Clients older than MIN_PROTOCOL_VERSION are told so and disconnected.
+ */
+async function hello(
+    ws: ElysiaWS,
+    protocolVersion: number,
+    features: string[],
+    client?: string,
+): Promise<void> {
+    if (protocolVersion < MIN_PROTOCOL_VERSION) {
+        wsLogger.info('Rejected client with unsupported protocol', {
+            clientId: ws.id,
+            protocolVersion,
+            client,
         });
-    } else {
         sendToClient(ws, {
-            type: 'error',
-            message: 'An unexpected error occurred',
+            type: 'errorWithCode',
+            code: ErrorCode.UNSUPPORTED_PROTOCOL,
+            message: `Protocol version ${protocolVersion} is no longer supported, the minimum is ${MIN_PROTOCOL_VERSION}`,
         });
-        serverLogger.error('Unexpected error', { error, clientId: ws.id });
+        ws.close();
+        return;
     }
+
+    const protocol = negotiateProtocol(protocolVersion, features);
+    wsProtocols.set(ws.id, protocol);
+    wsLogger.info('Negotiated protocol', { clientId: ws.id, client, ...protocol });
+
+    const clientId = getClientId(ws);
+    const sessionToken = await redis.hget(`client:${clientId}`, 'sessionToken');
+    sendToClient(ws, {
+        type: 'welcome',
+        protocolVersion: protocol.version,
+        serverProtocolVersion: PROTOCOL_VERSION,
+        minProtocolVersion: MIN_PROTOCOL_VERSION,
+        features: protocol.features,
+        clientId,
+        sessionToken: sessionToken ?? '',
+        serverTime: Date.now(),
+    });
+}
+
+function scheduleDisconnectLeave(clientId: string): void {
+    const timer = setTimeout(() => {
+        pendingLeaves.delete(clientId);
+        if (wsConnections.has(clientId)) {
+            return;
+        }
+
+        removeClientFromRoom(clientId).catch((error) => {
+            wsLogger.error('Failed to remove disconnected client from room', { clientId, error });
+        });
+    }, RECONNECT_GRACE_PERIOD);
+
+    pendingLeaves.set(clientId, timer);
 }
 
 // Room utilities
@@ -89,43 +411,258 @@ async function validateRoom(roomId: string, isRejoin = false): Promise<Room> {
         throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Room ID must be a valid string');
     }
 
-    const roomData = await redis.get(`room:${roomId}`);
-    if (!roomData) {
+    const snapshot = await loadRoom(redis, roomId);
+    if (!snapshot) {
         throw new RoomError(isRejoin ? ErrorCode.REJOIN_ROOM_NOT_FOUND : ErrorCode.ROOM_NOT_FOUND);
     }
 
-    try {
-        return JSON.parse(roomData);
-    } catch (error) {
-        serverLogger.error('Failed to parse room data', { roomId, error });
-        throw new RoomError(ErrorCode.INTERNAL_ERROR, 'Failed to parse room data');
-    }
+    return snapshot.room;
 }
 
-async function validateClientInRoom(ws: ElysiaWS): Promise<string> {
-    const roomId = await findRoomIdByClient(ws);
+async function validateClientInRoom(caller: Caller): Promise<string> {
+    const roomId = await findRoomIdByClient(caller);
     if (!roomId) {
         throw new RoomError(ErrorCode.NOT_IN_ROOM);
     }
     return roomId;
 }
 
-async function getClientInfo(wsId: string): Promise<ClientInfo | null> {
-    const clientInfo = await redis.hgetall(`client:${wsId}`);
-    return clientInfo.roomId ? { id: wsId, roomId: clientInfo.roomId } : null;
+async function getClientInfo(clientId: string): Promise<ClientInfo | null> {
+    const clientInfo = await redis.hgetall(`client:${clientId}`);
+    return clientInfo.roomId ? { id: clientId, roomId: clientInfo.roomId } : null;
 }
 
-async function findRoomIdByClient(ws: ElysiaWS): Promise<string | undefined> {
-    const clientInfo = await getClientInfo(ws.id);
+async function findRoomIdByClient(caller: Caller): Promise<string | undefined> {
+    const clientInfo = await getClientInfo(getClientId(caller));
     return clientInfo?.roomId;
 }
 
 async function roomIdExists(roomId: string): Promise<boolean> {
-    return Boolean(await redis.exists(`room:${roomId}`));
+    return Boolean(await redis.exists(getRoomKey(roomId)));
+}
+
+// Presence utilities
+async function getClientProfile(clientId: string): Promise<ClientProfile> {
+    const [displayName, deviceType] = await redis.hmget(
+        `client:${clientId}`,
+        'displayName',
+        'deviceType',
+    );
+    return validateProfile({
+        displayName: displayName ?? undefined,
+        deviceType: (deviceType ?? undefined) as ClientProfile['deviceType'],
+    });
+}
+
+/**
+ * Merges `changes` into the client's roster entry and broadcasts a `presenceUpdate`
+ * unless only `lastSeen` changed.
+ */
+async function updatePresence(
+    roomId: string,
+    clientId: string,
+    changes: Partial<Omit<PresenceEntry, 'clientId'>>,
+): Promise<void> {
+    const now = Date.now();
+    const current = await getPresence(roomId, clientId);
+    const entry: PresenceEntry = {
+        clientId,
+        displayName: getDefaultDisplayName(clientId),
+        deviceType: 'remote',
+        status: 'online',
+        joinedAt: now,
+        lastSeen: now,
+        ...current,
+        ...changes,
+    };
+
+    await setPresence(roomId, entry);
+
+    if (
+        !current ||
+        current.status !== entry.status ||
+        current.displayName !== entry.displayName ||
+        current.deviceType !== entry.deviceType
+    ) {
+        await broadcastToRoom(roomId, { type: 'presenceUpdate', upserted: [entry], removed: [] });
+    }
+}
+
+async function touchPresence(ws: ElysiaWS): Promise<void> {
+    const roomId = await findRoomIdByClient(ws);
+    if (!roomId) {
+        return;
+    }
+
+    const clientId = getClientId(ws);
+    lastPings.set(clientId, Date.now());
+    await updatePresence(roomId, clientId, { status: 'online', lastSeen: Date.now() });
+}
+
+/**
+ * Answers a ping with the server receive and send times, NTP style, and keeps a rolling
+ * estimate of the client clock offset from the exchanges the client completes.
+ */
+function syncClock(
+    ws: ElysiaWS,
+    receivedAt: number,
+    clientSendTime?: number,
+    lastPongReceivedAt?: number,
+): void {
+    const clientId = getClientId(ws);
+    const samples = clockSamples.get(clientId) ?? [];
+    const previous = clockExchanges.get(clientId);
+
+    if (previous && !isNullish(lastPongReceivedAt)) {
+        const sample = computeClockSample(previous, lastPongReceivedAt);
+        if (sample) {
+            addClockSample(samples, sample);
+            clockSamples.set(clientId, samples);
+        }
+    }
+
+    const estimate = estimateClock(samples);
+    const serverSendTime = Date.now();
+
+    if (isNullish(clientSendTime)) {
+        clockExchanges.delete(clientId);
+    } else {
+        clockExchanges.set(clientId, {
+            clientSendTime,
+            serverReceiveTime: receivedAt,
+            serverSendTime,
+        });
+    }
+
+    sendToClient(ws, {
+        type: 'pong',
+        clientSendTime,
+        serverReceiveTime: receivedAt,
+        serverSendTime,
+        offset: estimate?.offset,
+        roundTrip: estimate?.roundTrip,
+    });
+}
+
+async function markSilentClientsAway(): Promise<void> {
+    const now = Date.now();
+
+    for (const [clientId, lastPing] of lastPings) {
+        if (now - lastPing <= PRESENCE_AWAY_TIMEOUT) {
+            continue;
+        }
+
+        lastPings.delete(clientId);
+        const clientInfo = await getClientInfo(clientId);
+        if (clientInfo?.roomId) {
+            await updatePresence(clientInfo.roomId, clientId, { status: 'away' });
+        }
+    }
+}
+
+/**
+ * Publishes the live playback position of every room with a member connected to this
+ * instance, so players can correct drift without waiting for the next playback change.
+ */
+async function broadcastSyncBeacons(): Promise<void> {
+    const roomIds = new Set<string>();
+    for (const clientId of wsConnections.keys()) {
+        const roomId = await redis.hget(`client:${clientId}`, 'roomId');
+        if (roomId) {
+            roomIds.add(roomId);
+        }
+    }
+
+    for (const roomId of roomIds) {
+        if (!(await roomIdExists(roomId))) {
+            continue;
+        }
+
+        const room = await validateRoom(roomId);
+        // Without a player reporting progress the trimmed end is only caught here
+        if (!room.playingNow || (await finishAtTrimEnd(room))) {
+            continue;
+        }
+
+        const now = Date.now();
+        sendToRoomMembers(room, 'timeSync', {
+            type: 'syncBeacon',
+            entryId: room.playingNow.entryId,
+            currentTime: getPlaybackPosition(room, now),
+            isPlaying: room.isPlaying,
+            serverTime: now,
+            driftTolerance: SYNC_DRIFT_TOLERANCE,
+        });
+    }
+}
+
+async function updateProfile(ws: ElysiaWS, profile: ClientProfile): Promise<void> {
+    const roomId = await validateClientInRoom(ws);
+    const clientId = getClientId(ws);
+
+    if (Object.keys(profile).length > 0) {
+        await redis.hset(`client:${clientId}`, profile);
+    }
+    await updatePresence(roomId, clientId, { ...profile, lastSeen: Date.now() });
+    await electPrimaryPlayer(roomId);
+}
+
+// Player utilities
+/**
+ * Keeps the primary player of a room pointing at a connected player device. The current
+ * primary keeps the role while it stays connected, otherwise the player that joined
+ * first takes over. Must run whenever a member joins, leaves, disconnects or changes
+ * its device type.
+ */
+async function electPrimaryPlayer(roomId: string): Promise<void> {
+    const connectedPlayers = (await getPresenceRoster(roomId))
+        .filter((entry) => entry.deviceType === 'player')
+        .map((entry) => entry.clientId)
+        .filter((clientId) => wsConnections.has(clientId));
+
+    let previousClientId: string | null = null;
+    const room = await updateRoom(roomId, (room) => {
+        const players = connectedPlayers.filter((clientId) => room.clients.includes(clientId));
+
+        previousClientId = room.primaryPlayerId;
+        if (previousClientId && players.includes(previousClientId)) {
+            return false;
+        }
+
+        const clientId = players[0] ?? null;
+        if (clientId === previousClientId) {
+            return false;
+        }
+
+        room.primaryPlayerId = clientId;
+    });
+    if (!room) {
+        return;
+    }
+
+    const clientId = room.primaryPlayerId;
+    roomLogger.info('Primary player changed', { roomId, clientId, previousClientId });
+    await broadcastToRoom(roomId, { type: 'primaryPlayerChanged', clientId, previousClientId });
+}
+
+/**
+ * Whether a playback report should be applied. Without a connected player device every
+ * member may report, as before devices were told apart.
+ */
+function isPlaybackReportAccepted(
+    room: Pick<Room, 'primaryPlayerId' | 'playingNow'>,
+    clientId: string,
+    entryId?: string,
+): boolean {
+    if (room.primaryPlayerId && room.primaryPlayerId !== clientId) {
+        return false;
+    }
+
+    return isNullish(entryId) || room.playingNow?.entryId === entryId;
 }
 
 // Room operations
-async function createRoom(ws: ElysiaWS, password?: string) {
+async function createRoom(ws: ElysiaWS, password?: string, profile: ClientProfile = {}) {
     let roomId: string;
     let roomExists: boolean;
 
@@ -134,7 +671,8 @@ async function createRoom(ws: ElysiaWS, password?: string) {
         roomExists = await roomIdExists(roomId);
     } while (roomExists);
 
-    roomLogger.info(`Creating new room`, { roomId, creatorId: ws.id });
+    const clientId = getClientId(ws);
+    roomLogger.info(`Creating new room`, { roomId, creatorId: clientId });
 
     const room: Room = {
         id: roomId,
@@ -146,25 +684,55 @@ async function createRoom(ws: ElysiaWS, password?: string) {
                   cost: 4,
               })
             : undefined,
-        clients: [ws.id],
+        clients: [clientId],
         videoQueue: [],
         historyQueue: [],
         volume: 100,
+        pitch: DEFAULT_PITCH,
+        playbackRate: DEFAULT_PLAYBACK_RATE,
         playingNow: null,
         lastActivity: Date.now(),
-        creatorId: ws.id,
+        creatorId: clientId,
         isPlaying: false,
         currentTime: 0,
+        playbackUpdatedAt: Date.now(),
+        roles: { [clientId]: 'host' },
+        settings: { ...DEFAULT_ROOM_SETTINGS },
+        bans: [],
+        mutedClients: [],
+        apiTokens: [],
+        webhooks: [],
+        skipVotes: [],
+        primaryPlayerId: null,
+        version: 0,
     };
 
-    await redis.set(`room:${roomId}`, JSON.stringify(room));
-    await joinRoomInternal(ws, roomId);
+    // NX keeps a room created concurrently under the same id
+    if (!(await writeRoom(redis, null, room))) {
+        return createRoom(ws, password, profile);
+    }
+    // Only once the id is ours, a new room must not continue the log of a closed one
+    await clearRoomEventLog(roomId);
+    await appendRoomEvent(null, room);
+    emitWebhookEvent(room, 'roomCreated', { creatorId: clientId });
+    await joinRoomInternal(ws, roomId, profile);
     sendToClient(ws, { type: 'roomCreated', roomId });
 }
 
-async function joinRoom(ws: ElysiaWS, roomId: string, password?: string, isRejoin = false) {
+async function joinRoom(
+    ws: ElysiaWS,
+    roomId: string,
+    password?: string,
+    isRejoin = false,
+    profile: ClientProfile = {},
+) {
     const room = await validateRoom(roomId, isRejoin);
 
+    const clientId = getClientId(ws);
+    if (isBanned(room, clientId, await redis.hget(`client:${clientId}`, 'ip'))) {
+        throw new RoomError(ErrorCode.BANNED_FROM_ROOM);
+    }
+
     if (!isNullish(password) && !isNullish(room?.password)) {
         const isPasswordValid = IS_ENCRYPTED_PASSWORD
             ? await Bun.password.verify(password, room.password)
@@ -175,26 +743,83 @@ async function joinRoom(ws: ElysiaWS, roomId: string, password?: string, isRejoi
         }
     }
 
-    await joinRoomInternal(ws, roomId);
+    await joinRoomInternal(ws, roomId, profile);
     await updateRoomActivity(roomId);
 }
 
-async function joinRoomInternal(ws: ElysiaWS, roomId: string) {
+async function reJoinRoom(
+    ws: ElysiaWS,
+    roomId: string,
+    password?: string,
+    sessionToken?: string,
+    profile: ClientProfile = {},
+): Promise<void> {
+    if (sessionToken && (await resumeSession(ws, sessionToken))) {
+        const clientId = getClientId(ws);
+        const room = await validateRoom(roomId, true);
+
+        // Still a member from before the reconnect: re-attach the socket without the room
+        // seeing the client leave and join again
+        if (room.clients.includes(clientId)) {
+            ws.subscribe(roomId);
+            await redis.hset(`client:${clientId}`, { ...profile, roomId });
+            lastPings.set(clientId, Date.now());
+            await updatePresence(roomId, clientId, {
+                ...profile,
+                status: 'online',
+                lastSeen: Date.now(),
+            });
+            sendToClient(ws, {
+                type: 'roomJoined',
+                yourId: clientId,
+                room: cleanUpRoomField(room),
+                presence: await getPresenceRoster(roomId),
+            });
+            await electPrimaryPlayer(roomId);
+            await updateRoomActivity(roomId);
+            return;
+        }
+    }
+
+    // With isRejoin set to true a missing room throws REJOIN_ROOM_NOT_FOUND
+    await joinRoom(ws, roomId, password, true, profile);
+}
+
+async function joinRoomInternal(ws: ElysiaWS, roomId: string, profile: ClientProfile = {}) {
     await leaveCurrentRoom(ws);
 
-    const room = await validateRoom(roomId);
+    const clientId = getClientId(ws);
+    let joined = false;
+    const { room } = (await mutateRoom(roomId, (room) => {
+        joined = !room.clients.includes(clientId);
+        if (joined) {
+            room.clients.push(clientId);
+        }
+    }))!;
 
-    if (!room.clients.includes(ws.id)) {
-        room.clients.push(ws.id);
-        await redis.set(`room:${roomId}`, JSON.stringify(room));
+    if (joined) {
+        emitWebhookEvent(room, 'memberJoined', { clientId, displayName: profile.displayName });
     }
 
     ws.subscribe(roomId);
 
-    await Promise.all([
-        redis.hset(`client:${ws.id}`, 'roomId', roomId),
-        sendToClient(ws, { type: 'roomJoined', yourId: ws.id, room: cleanUpRoomField(room) }),
-    ]);
+    // A profile sent with an earlier join is reused unless the client overrides it
+    const clientProfile = { ...(await getClientProfile(clientId)), ...profile };
+    await redis.hset(`client:${clientId}`, { ...clientProfile, roomId });
+    lastPings.set(clientId, Date.now());
+    await updatePresence(roomId, clientId, {
+        ...clientProfile,
+        status: 'online',
+        lastSeen: Date.now(),
+    });
+
+    sendToClient(ws, {
+        type: 'roomJoined',
+        yourId: clientId,
+        room: cleanUpRoomField(room),
+        presence: await getPresenceRoster(roomId),
+    });
+    await electPrimaryPlayer(roomId);
 }
 
 async function leaveRoom(ws: ElysiaWS) {
@@ -203,31 +828,65 @@ async function leaveRoom(ws: ElysiaWS) {
 }
 
 async function leaveCurrentRoom(ws: ElysiaWS) {
-    const clientInfo = await getClientInfo(ws.id);
-    if (clientInfo?.roomId) {
-        ws.unsubscribe(clientInfo.roomId);
-        const room = await validateRoom(clientInfo.roomId);
-        room.clients = room.clients.filter((id) => id !== ws.id);
-        await redis.set(`room:${clientInfo.roomId}`, JSON.stringify(room));
-        await redis.hdel(`client:${ws.id}`, 'roomId');
-        await updateRoomActivity(clientInfo.roomId);
+    const roomId = await removeClientFromRoom(getClientId(ws));
+    if (roomId) {
+        ws.unsubscribe(roomId);
     }
 }
 
-async function handleCloseRoom(ws: ElysiaWS) {
-    const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
+async function removeClientFromRoom(clientId: string): Promise<string | undefined> {
+    const clientInfo = await getClientInfo(clientId);
+    if (clientInfo?.roomId) {
+        let hostMessage: ServerMessage | null = null;
+        const { previous, room } = (await mutateRoom(clientInfo.roomId, (room) => {
+            room.clients = room.clients.filter((id) => id !== clientId);
+            room.lastActivity = Date.now();
+
+            hostMessage =
+                room.creatorId === clientId && room.clients.length > 0 ? handOverHost(room) : null;
+            if (hostMessage) {
+                room.version += 1;
+            }
+        }))!;
+
+        await redis.hdel(`client:${clientId}`, 'roomId');
+        emitWebhookEvent(room, 'memberLeft', { clientId });
+
+        lastPings.delete(clientId);
+        await removePresence(clientInfo.roomId, clientId);
+        await broadcastToRoom(clientInfo.roomId, {
+            type: 'presenceUpdate',
+            upserted: [],
+            removed: [clientId],
+        });
+
+        if (hostMessage) {
+            if (room.hostVote) {
+                scheduleHostVoteEnd(room.id);
+            }
+            await Promise.all([
+                broadcastToRoom(clientInfo.roomId, hostMessage),
+                publishRoomChanges(previous, room),
+            ]);
+        }
 
-    if (room.creatorId !== ws.id) {
-        throw new RoomError(ErrorCode.NOT_CREATOR_OF_ROOM);
+        await electPrimaryPlayer(clientInfo.roomId);
+        return clientInfo.roomId;
     }
+}
 
+async function handleCloseRoom(ws: ElysiaWS) {
+    // Who may close the room is decided by the permission matrix in handleMessage
+    const roomId = await validateClientInRoom(ws);
     await closeRoom(roomId);
 }
 
 export async function closeRoom(roomId: string, reason = 'Room closed by creator') {
     const room = await validateRoom(roomId);
 
+    clearTimeout(hostVoteTimers.get(roomId));
+    hostVoteTimers.delete(roomId);
+
     for (const clientId of room.clients) {
         const ws = wsConnections.get(clientId);
         if (ws) {
@@ -239,286 +898,1154 @@ export async function closeRoom(roomId: string, reason = 'Room closed by creator
         }
     }
 
+    room.clients.forEach((clientId) => lastPings.delete(clientId));
+    emitWebhookEvent(room, 'roomClosed', { reason });
+    await appendRoomEvent(room, null);
+
     await Promise.all([
-        redis.del(`room:${roomId}`),
+        deleteRoom(redis, roomId),
+        clearPresence(roomId),
+        ...room.apiTokens.map((apiToken) => deleteApiTokenKeys(apiToken.id)),
         ...room.clients.map((clientId) => redis.hdel(`client:${clientId}`, 'roomId')),
     ]);
 }
 
-// Video operations
-async function addVideo(ws: ElysiaWS, video: YouTubeVideo): Promise<void> {
-    if (!video || !video.id) {
-        throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid video data');
-    }
+// Role operations
+// Checked for nearly every message, so the lists of the room are not read for it
+const AUTHORIZATION_FIELDS = ['creatorId', 'roles', 'settings', 'mutedClients'] as const;
 
-    const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
+async function authorizeMessage(caller: Caller, type: ClientMessageType): Promise<void> {
+    // Owner checked messages are authorized by their handler, which knows the target entry
+    if (!isRoomScopedMessage(type) || OWNER_CHECKED_MESSAGE_TYPES.includes(type)) {
+        return;
+    }
 
-    if (room.videoQueue.some((v) => v.id === video.id)) {
-        throw new RoomError(ErrorCode.ALREADY_IN_QUEUE);
+    // Handlers report NOT_IN_ROOM themselves
+    const roomId = await findRoomIdByClient(caller);
+    if (!roomId) {
+        return;
     }
 
-    try {
-        const isEmbeddable = await checkEmbeddable(video.id);
-        if (!isEmbeddable) {
-            throw new RoomError(ErrorCode.VIDEO_NOT_EMBEDDABLE, 'Video is not embeddable');
-        }
+    const snapshot = await readRoomFields(redis, roomId, AUTHORIZATION_FIELDS);
+    if (!snapshot) {
+        throw new RoomError(ErrorCode.ROOM_NOT_FOUND);
+    }
+    const { room } = snapshot;
+    const clientId = getClientId(caller);
 
-        if (!room?.playingNow && room?.videoQueue?.length <= 0) {
-            room.playingNow = video;
-            room.isPlaying = true;
-            room.currentTime = 0;
-        } else {
-            room.videoQueue = [...room.videoQueue, video];
+    if (!hasPermission(room, clientId, type)) {
+        // Clients from before roles expect a refused closeRoom to report notCreatorOfRoom
+        if (type === 'closeRoom') {
+            throw new RoomError(ErrorCode.NOT_CREATOR_OF_ROOM);
         }
-        room.lastActivity = Date.now();
+        throw new RoomError(
+            ErrorCode.INSUFFICIENT_PERMISSION,
+            `The ${getRequiredRole(room, type)} role is required to ${type}`,
+        );
+    }
 
-        await Promise.all([
-            redis.set(`room:${roomId}`, JSON.stringify(room)),
-            broadcastToRoom(roomId, { type: 'roomUpdate', room: cleanUpRoomField(room) }),
-        ]);
-    } catch (error) {
-        if (error instanceof RoomError) {
-            throw error;
-        }
-        serverLogger.error('Failed to add video', { videoId: video.id, error });
-        throw new RoomError(ErrorCode.INTERNAL_ERROR, 'Failed to add video');
+    if (MUTED_MESSAGE_TYPES.includes(type) && room.mutedClients.includes(clientId)) {
+        throw new RoomError(ErrorCode.MUTED);
     }
 }
 
-async function playVideoNow(ws: ElysiaWS, video: YouTubeVideo) {
+async function setClientRole(ws: ElysiaWS, targetClientId: string, role: RoomRole) {
     const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
+    const clientId = getClientId(ws);
 
-    if (!(await checkEmbeddable(video.id))) {
-        throw new RoomError(ErrorCode.VIDEO_NOT_EMBEDDABLE, 'Video is not embeddable');
+    if (role === 'host') {
+        throw new RoomError(
+            ErrorCode.INVALID_MESSAGE,
+            'The host role can only be handed over with transferHost',
+        );
     }
 
-    // Remove the video that would be played now from the queue and history
-    room.historyQueue = room.historyQueue.filter((v) => v.id !== video.id);
-    room.videoQueue = room.videoQueue.filter((v) => v.id !== video.id);
+    await updateRoom(roomId, (room) => {
+        if (!room.clients.includes(targetClientId)) {
+            throw new RoomError(ErrorCode.CLIENT_NOT_FOUND);
+        }
 
-    // Move the currently playing video to history
-    if (room.playingNow && room.playingNow.id) {
-        // If the video is not in history, add it to history
-        // If the video is in history, move it to the top
-        room.historyQueue = [
-            room.playingNow,
-            ...room.historyQueue?.filter((v) => v.id !== room.playingNow!.id),
-        ];
-    }
+        // Members can only manage roles strictly below their own
+        const actorRole = getClientRole(room, clientId);
+        if (
+            targetClientId === clientId ||
+            compareRoles(getClientRole(room, targetClientId), actorRole) >= 0 ||
+            compareRoles(role, actorRole) >= 0
+        ) {
+            throw new RoomError(
+                ErrorCode.INSUFFICIENT_PERMISSION,
+                'Cannot change the role of this client',
+            );
+        }
 
-    room.playingNow = video;
-    room.isPlaying = true;
-    room.currentTime = 0;
-    room.lastActivity = Date.now();
+        room.roles[targetClientId] = role;
+        room.lastActivity = Date.now();
+    });
 
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'roomUpdate', room: cleanUpRoomField(room) }),
-    ]);
+    await broadcastToRoom(roomId, { type: 'roleChanged', clientId: targetClientId, role });
 }
 
-async function nextVideo(ws: ElysiaWS) {
+async function updateRoomSettings(ws: ElysiaWS, settings: Partial<RoomSettings>) {
     const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
+    await updateRoom(roomId, (room) => {
+        if (!isNullish(settings.defaultRole)) {
+            if (!isRoomRole(settings.defaultRole) || settings.defaultRole === 'host') {
+                throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid default role');
+            }
+            room.settings.defaultRole = settings.defaultRole;
+        }
+
+        if (!isNullish(settings.hostSuccession)) {
+            if (!HOST_SUCCESSIONS.includes(settings.hostSuccession)) {
+                throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid host succession');
+            }
+            room.settings.hostSuccession = settings.hostSuccession;
+        }
+
+        if (!isNullish(settings.queueMode)) {
+            if (!QUEUE_MODES.includes(settings.queueMode)) {
+                throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid queue mode');
+            }
+            room.settings.queueMode = settings.queueMode;
+            applyQueueMode(room);
+        }
+
+        if (!isNullish(settings.skipVoteThreshold)) {
+            const threshold = settings.skipVoteThreshold;
+            if (typeof threshold !== 'number' || !(threshold >= 0 && threshold <= 100)) {
+                throw new RoomError(
+                    ErrorCode.INVALID_MESSAGE,
+                    'Skip vote threshold must be 0 to 100',
+                );
+            }
+            room.settings.skipVoteThreshold = threshold;
+        }
+
+        if (!isNullish(settings.autoReorderByVotes)) {
+            if (typeof settings.autoReorderByVotes !== 'boolean') {
+                throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid auto reorder setting');
+            }
+            room.settings.autoReorderByVotes = settings.autoReorderByVotes;
+            applyQueueMode(room);
+        }
+
+        if (!isNullish(settings.autoplay)) {
+            if (typeof settings.autoplay !== 'boolean') {
+                throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid autoplay setting');
+            }
+            room.settings.autoplay = settings.autoplay;
+        }
+
+        if (!isNullish(settings.autoplayMaxDuration)) {
+            const maxDuration = settings.autoplayMaxDuration;
+            if (!Number.isInteger(maxDuration) || maxDuration < 0) {
+                throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid autoplay max duration');
+            }
+            room.settings.autoplayMaxDuration = maxDuration;
+        }
+
+        if (!isNullish(settings.rememberPlaybackAdjustments)) {
+            if (typeof settings.rememberPlaybackAdjustments !== 'boolean') {
+                throw new RoomError(
+                    ErrorCode.INVALID_MESSAGE,
+                    'Invalid remember adjustments setting',
+                );
+            }
+            room.settings.rememberPlaybackAdjustments = settings.rememberPlaybackAdjustments;
+        }
+
+        if (!isNullish(settings.coHostId)) {
+            if (!room.clients.includes(settings.coHostId)) {
+                throw new RoomError(ErrorCode.CLIENT_NOT_FOUND, 'Co-host must be in the room');
+            }
+            room.settings.coHostId = settings.coHostId;
+        }
+
+        if (!isNullish(settings.permissions)) {
+            if (typeof settings.permissions !== 'object') {
+                throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid permissions');
+            }
+            for (const [type, role] of Object.entries(settings.permissions)) {
+                if (!isRoomScopedMessage(type as ClientMessageType) || !isRoomRole(role)) {
+                    throw new RoomError(
+                        ErrorCode.INVALID_MESSAGE,
+                        `Invalid permission for ${type}`,
+                    );
+                }
+            }
+            room.settings.permissions = { ...room.settings.permissions, ...settings.permissions };
+        }
+
+        room.lastActivity = Date.now();
+    });
+}
+
+// Moderation operations
+function validateModerationTarget(room: Room, clientId: string, targetClientId: string): void {
+    if (!room.clients.includes(targetClientId)) {
+        throw new RoomError(ErrorCode.CLIENT_NOT_FOUND);
+    }
+
+    // Members can only moderate clients with a lower role than their own
+    if (
+        targetClientId === clientId ||
+        compareRoles(getClientRole(room, targetClientId), getClientRole(room, clientId)) >= 0
+    ) {
+        throw new RoomError(ErrorCode.INSUFFICIENT_PERMISSION, 'Cannot moderate this client');
+    }
+}
+
+async function kickClient(ws: ElysiaWS, targetClientId: string, reason?: string, ban = false) {
+    const roomId = await validateClientInRoom(ws);
+    const clientId = getClientId(ws);
+    const ip = ban ? await redis.hget(`client:${targetClientId}`, 'ip') : null;
+
+    await updateRoom(roomId, (room) => {
+        validateModerationTarget(room, clientId, targetClientId);
+
+        if (ban) {
+            room.bans = [
+                ...room.bans.filter((b) => b.clientId !== targetClientId),
+                {
+                    clientId: targetClientId,
+                    ip: ip || undefined,
+                    reason,
+                    bannedAt: Date.now(),
+                    bannedBy: clientId,
+                },
+            ];
+        }
+        room.clients = room.clients.filter((id) => id !== targetClientId);
+        room.lastActivity = Date.now();
+    });
+
+    // The target is no longer a member, this cleans up its client record and presence
+    await removeClientFromRoom(targetClientId);
+
+    const targetWs = wsConnections.get(targetClientId);
+    if (targetWs) {
+        targetWs.unsubscribe(roomId);
+        sendToClient(targetWs, { type: ban ? 'banned' : 'kicked', roomId, reason });
+    }
+
+    await broadcastToRoom(roomId, {
+        type: 'clientModerated',
+        action: ban ? 'ban' : 'kick',
+        clientId: targetClientId,
+        by: clientId,
+    });
+}
+
+async function unbanClient(ws: ElysiaWS, targetClientId: string) {
+    const roomId = await validateClientInRoom(ws);
+
+    await updateRoom(roomId, (room) => {
+        if (!room.bans.some((b) => b.clientId === targetClientId)) {
+            throw new RoomError(ErrorCode.CLIENT_NOT_FOUND, 'Client is not banned');
+        }
+
+        room.bans = room.bans.filter((b) => b.clientId !== targetClientId);
+        room.lastActivity = Date.now();
+    });
+
+    await broadcastToRoom(roomId, {
+        type: 'clientModerated',
+        action: 'unban',
+        clientId: targetClientId,
+        by: getClientId(ws),
+    });
+}
+
+async function setClientMuted(ws: ElysiaWS, targetClientId: string, muted: boolean) {
+    const roomId = await validateClientInRoom(ws);
+    const clientId = getClientId(ws);
+
+    await updateRoom(roomId, (room) => {
+        validateModerationTarget(room, clientId, targetClientId);
+
+        room.mutedClients = room.mutedClients.filter((id) => id !== targetClientId);
+        if (muted) {
+            room.mutedClients.push(targetClientId);
+        }
+        room.lastActivity = Date.now();
+    });
+
+    const targetWs = wsConnections.get(targetClientId);
+    if (targetWs) {
+        sendToClient(targetWs, { type: 'muted', muted });
+    }
+
+    await broadcastToRoom(roomId, {
+        type: 'clientModerated',
+        action: muted ? 'mute' : 'unmute',
+        clientId: targetClientId,
+        by: clientId,
+    });
+}
+
+// API token operations
+const API_CLIENT_ID_PREFIX = 'api:';
+
+function hashApiToken(token: string): string {
+    return new Bun.CryptoHasher('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issues a token letting an integration act on the room over the REST API. The token acts
+ * as a member that is never in `clients`, with its own client record and role.
+ */
+async function createApiToken(ws: ElysiaWS, name: string, role: RoomRole = 'moderator') {
+    const roomId = await validateClientInRoom(ws);
+
+    if (role === 'host') {
+        throw new RoomError(ErrorCode.INVALID_MESSAGE, 'API tokens cannot have the host role');
+    }
+
+    const apiToken: ApiToken = {
+        id: crypto.randomUUID(),
+        name,
+        role,
+        createdBy: getClientId(ws),
+        createdAt: Date.now(),
+    };
+    const clientId = `${API_CLIENT_ID_PREFIX}${apiToken.id}`;
+    const token = Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url');
+    const tokenHash = hashApiToken(token);
+
+    await updateRoom(roomId, (room) => {
+        room.apiTokens.push(apiToken);
+        room.roles[clientId] = role;
+        room.lastActivity = Date.now();
+    });
+
+    await Promise.all([
+        redis.set(`apiToken:${tokenHash}`, clientId),
+        redis.hset(`client:${clientId}`, {
+            roomId,
+            tokenHash,
+            displayName: name,
+            deviceType: 'remote',
+            lastSeen: Date.now(),
+        }),
+    ]);
+
+    sendToClient(ws, { type: 'apiTokenCreated', token, apiToken });
+}
+
+async function revokeApiToken(ws: ElysiaWS, tokenId: string) {
+    const roomId = await validateClientInRoom(ws);
+
+    await updateRoom(roomId, (room) => {
+        if (!room.apiTokens.some((apiToken) => apiToken.id === tokenId)) {
+            throw new RoomError(ErrorCode.CLIENT_NOT_FOUND, 'API token not found');
+        }
+
+        room.apiTokens = room.apiTokens.filter((apiToken) => apiToken.id !== tokenId);
+        delete room.roles[`${API_CLIENT_ID_PREFIX}${tokenId}`];
+        room.lastActivity = Date.now();
+    });
+
+    await deleteApiTokenKeys(tokenId);
+}
+
+async function deleteApiTokenKeys(tokenId: string): Promise<void> {
+    const clientId = `${API_CLIENT_ID_PREFIX}${tokenId}`;
+    const tokenHash = await redis.hget(`client:${clientId}`, 'tokenHash');
+    await Promise.all([
+        redis.del(`client:${clientId}`),
+        tokenHash ? redis.del(`apiToken:${tokenHash}`) : Promise.resolve(),
+    ]);
+}
+
+/**
+ * Resolves the caller of a REST request from its `Authorization: Bearer <token>` header.
+ * @throws {RoomError} INVALID_API_TOKEN when the token is unknown or belongs to another room.
+ */
+async function authenticateApiRequest(roomId: string, authorization?: string): Promise<Caller> {
+    const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    const clientId = token ? await redis.get(`apiToken:${hashApiToken(token)}`) : null;
+    const tokenRoomId = clientId ? await redis.hget(`client:${clientId}`, 'roomId') : null;
+
+    if (!clientId || tokenRoomId !== roomId) {
+        throw new RoomError(ErrorCode.INVALID_API_TOKEN);
+    }
+
+    await redis.hset(`client:${clientId}`, 'lastSeen', Date.now());
+    return { id: clientId };
+}
+
+// Webhook operations
+// Webhook deliveries never hold up or fail the operation that triggered them
+function emitWebhookEvent(
+    room: Room,
+    type: WebhookEventType,
+    data: Record<string, unknown> = {},
+): void {
+    enqueueWebhookEvent(room, type, data).catch((error) => {
+        serverLogger.error('Failed to queue webhook event', { roomId: room.id, type, error });
+    });
+}
+
+async function addWebhook(ws: ElysiaWS, url: string, events: WebhookEventType[] = []) {
+    const roomId = await validateClientInRoom(ws);
+    const secret = Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url');
+    const webhook: RoomWebhook = {
+        id: crypto.randomUUID(),
+        url: validateWebhookUrl(url, WEBHOOK_ALLOW_PRIVATE_URLS),
+        events,
+        createdBy: getClientId(ws),
+        createdAt: Date.now(),
+    };
+
+    await updateRoom(roomId, (room) => {
+        if (room.webhooks.length >= MAX_ROOM_WEBHOOKS) {
+            throw new RoomError(
+                ErrorCode.INVALID_MESSAGE,
+                `A room can have at most ${MAX_ROOM_WEBHOOKS} webhooks`,
+            );
+        }
+
+        room.webhooks.push({ ...webhook, secret });
+        room.lastActivity = Date.now();
+    });
+
+    sendToClient(ws, { type: 'webhookAdded', webhook, secret });
+}
+
+async function removeWebhook(ws: ElysiaWS, webhookId: string) {
+    const roomId = await validateClientInRoom(ws);
+    await updateRoom(roomId, (room) => {
+        if (!room.webhooks.some((webhook) => webhook.id === webhookId)) {
+            throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Webhook not found');
+        }
+
+        room.webhooks = room.webhooks.filter((webhook) => webhook.id !== webhookId);
+        room.lastActivity = Date.now();
+    });
+}
+
+async function sendWebhookDeliveries(ws: ElysiaWS) {
+    const roomId = await validateClientInRoom(ws);
+    sendToClient(ws, {
+        type: 'webhookDeliveries',
+        deliveries: await getWebhookDeliveries(roomId),
+    });
+}
+
+// Host operations
+function assignHost(room: Room, hostId: string, keepPreviousHost: boolean): string {
+    const previousHostId = room.creatorId;
+
+    if (keepPreviousHost) {
+        room.roles[previousHostId] = 'moderator';
+    } else {
+        delete room.roles[previousHostId];
+    }
+
+    room.roles[hostId] = 'host';
+    room.creatorId = hostId;
+    room.hostVote = null;
+
+    return previousHostId;
+}
+
+/**
+ * Chooses the next host after the current one left, following the room's succession setting.
+ * Mutates the room and returns the message to broadcast once it is saved.
+ */
+function handOverHost(room: Room): ServerMessage {
+    const { hostSuccession, coHostId } = room.settings;
+
+    if (hostSuccession === 'vote' && room.clients.length > 1) {
+        delete room.roles[room.creatorId];
+        room.hostVote = { votes: {}, endsAt: Date.now() + HOST_VOTE_DURATION };
+        return { type: 'hostVoteStarted', candidates: room.clients, endsAt: room.hostVote.endsAt };
+    }
+
+    const hostId =
+        hostSuccession === 'coHost' && coHostId && room.clients.includes(coHostId)
+            ? coHostId
+            : room.clients[0];
+    const previousHostId = assignHost(room, hostId, false);
+
+    return { type: 'hostChanged', hostId, previousHostId, reason: 'left' };
+}
+
+function scheduleHostVoteEnd(roomId: string): void {
+    clearTimeout(hostVoteTimers.get(roomId));
+
+    // The vote result is not part of the command that started the vote
+    const timer = detachFromRoomCommand(() =>
+        setTimeout(() => {
+            hostVoteTimers.delete(roomId);
+            finishHostVote(roomId).catch((error) => {
+                roomLogger.error('Failed to finish host vote', { roomId, error });
+            });
+        }, HOST_VOTE_DURATION),
+    );
+
+    hostVoteTimers.set(roomId, timer);
+}
+
+function countHostVotes(room: Room): Map<string, number> {
+    const tally = new Map<string, number>();
+    for (const [voterId, candidateId] of Object.entries(room.hostVote?.votes ?? {})) {
+        if (room.clients.includes(voterId) && room.clients.includes(candidateId)) {
+            tally.set(candidateId, (tally.get(candidateId) ?? 0) + 1);
+        }
+    }
+    return tally;
+}
+
+async function finishHostVote(roomId: string): Promise<void> {
+    if (!(await roomIdExists(roomId))) {
+        return;
+    }
+
+    let previousHostId = '';
+    const room = await updateRoom(roomId, (room) => {
+        if (!room.hostVote || room.clients.length === 0) {
+            return false;
+        }
+
+        // Most votes wins, ties and an empty ballot go to the oldest member
+        const tally = countHostVotes(room);
+        const hostId = room.clients.reduce((best, candidateId) =>
+            (tally.get(candidateId) ?? 0) > (tally.get(best) ?? 0) ? candidateId : best,
+        );
+
+        previousHostId = assignHost(room, hostId, false);
+        room.lastActivity = Date.now();
+    });
+    if (!room) {
+        return;
+    }
+
+    clearTimeout(hostVoteTimers.get(roomId));
+    hostVoteTimers.delete(roomId);
+
+    await broadcastToRoom(roomId, {
+        type: 'hostChanged',
+        hostId: room.creatorId,
+        previousHostId,
+        reason: 'elected',
+    });
+}
+
+async function transferHost(ws: ElysiaWS, targetClientId: string) {
+    const roomId = await validateClientInRoom(ws);
+
+    let previousHostId = '';
+    await updateRoom(roomId, (room) => {
+        if (!room.clients.includes(targetClientId)) {
+            throw new RoomError(ErrorCode.CLIENT_NOT_FOUND);
+        }
+
+        if (targetClientId === room.creatorId) {
+            throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Client is already the host');
+        }
+
+        previousHostId = assignHost(room, targetClientId, true);
+        room.lastActivity = Date.now();
+    });
+
+    await broadcastToRoom(roomId, {
+        type: 'hostChanged',
+        hostId: targetClientId,
+        previousHostId,
+        reason: 'transferred',
+    });
+}
+
+async function voteHost(ws: ElysiaWS, candidateId: string) {
+    const roomId = await validateClientInRoom(ws);
+
+    const room = (await updateRoom(roomId, (room) => {
+        if (!room.hostVote) {
+            throw new RoomError(ErrorCode.INVALID_MESSAGE, 'No host vote is running');
+        }
+
+        if (!room.clients.includes(candidateId)) {
+            throw new RoomError(ErrorCode.CLIENT_NOT_FOUND);
+        }
+
+        room.hostVote.votes[getClientId(ws)] = candidateId;
+        room.lastActivity = Date.now();
+    }))!;
+
+    // A majority or an expired vote (e.g. the timer was lost on restart) ends the election
+    const votes = countHostVotes(room).get(candidateId) ?? 0;
+    if (votes > room.clients.length / 2 || Date.now() >= room.hostVote!.endsAt) {
+        await finishHostVote(roomId);
+    }
+}
+
+// Queue utilities
+function takeNextEntry(room: Room): QueueEntry | null {
+    const next = room.videoQueue.shift();
+    if (!next) {
+        return null;
+    }
+
+    // Pins and upvotes only matter while the entry waits in the queue
+    const { pinned, upvotes, ...entry } = next;
+    return entry;
+}
+
+function findQueueEntryOrThrow(room: Room, target: QueueEntryTarget): QueueEntry {
+    const entry = findQueueEntry(room.videoQueue, target);
+    if (!entry) {
+        throw new RoomError(ErrorCode.VIDEO_NOT_FOUND, 'Video not found in queue');
+    }
+    return entry;
+}
+
+// Entries moved to the top are pinned so automatic ordering keeps them in front
+function isQueueAutoOrdered(room: Room): boolean {
+    return room.settings.queueMode === 'fair' || room.settings.autoReorderByVotes;
+}
+
+// Reorders the queue for fair rotation or by votes, must run after additions and playback changes
+function applyQueueMode(room: Room): void {
+    if (room.settings.queueMode === 'fair') {
+        room.videoQueue = buildFairQueue(room.videoQueue, room.playingNow?.addedBy);
+    } else if (room.settings.autoReorderByVotes) {
+        room.videoQueue = sortQueueByVotes(room.videoQueue);
+    }
+}
+
+/**
+ * Picks an embeddable related video of the latest song that was not played recently, or
+ * null when autoplay finds nothing. Lookup failures never stop the room from advancing.
+ */
+async function pickAutoplayEntry(room: Room): Promise<QueueEntry | null> {
+    const seed = room.playingNow ?? room.historyQueue[0];
+    if (!seed) {
+        return null;
+    }
+
+    try {
+        const recentIds = new Set(
+            room.historyQueue.slice(0, AUTOPLAY_HISTORY_WINDOW).map((e) => e.video.id),
+        );
+        recentIds.add(seed.video.id);
+        const maxDuration = room.settings.autoplayMaxDuration;
+
+        const candidates = (await getRelatedVideos(seed.video.id)).filter(
+            (video) =>
+                !recentIds.has(video.id) && (maxDuration <= 0 || video.duration <= maxDuration),
+        );
+
+        for (const video of candidates) {
+            if (await checkEmbeddable(video.id)) {
+                return { ...createQueueEntry(video, undefined), autoAdded: true };
+            }
+        }
+    } catch (error) {
+        serverLogger.error('Failed to pick autoplay video', { roomId: room.id, error });
+    }
+
+    return null;
+}
+
+// The lookup is too slow to repeat on every retry of a mutation, so it runs before it
+async function prepareAutoplayEntry(room: Room): Promise<QueueEntry | null> {
+    return room.videoQueue.length === 0 && room.settings.autoplay ? pickAutoplayEntry(room) : null;
+}
+
+/**
+ * Moves the playing entry to history and starts the next one. When the queue is empty it
+ * falls back to the autoplay entry if enabled, otherwise stops playback. Skip votes always
+ * belong to the playing entry and are reset.
+ * @param autoplayEntry Picked by prepareAutoplayEntry, null when there is none.
+ */
+function advanceQueue(room: Room, autoplayEntry: QueueEntry | null): void {
+    if (room.videoQueue.length === 0 && room.settings.autoplay && autoplayEntry) {
+        room.videoQueue = [autoplayEntry];
+    }
+
+    // Move the currently playing video to history
+    if (room.playingNow) {
+        moveToHistory(room, room.playingNow);
+    }
+
+    const next = takeNextEntry(room);
+    if (next) {
+        // If there are videos in the queue, play the next video
+        startEntry(room, next);
+        // The new singer takes their next turn after everyone else
+        applyQueueMode(room);
+    } else {
+        // If there are no videos in the queue, stop playing
+        room.playingNow = null;
+        setPlayback(room, false, 0);
+    }
+
+    room.skipVotes = [];
+}
+
+async function sendSingerQueue(ws: ElysiaWS, singerId?: string) {
+    const roomId = await validateClientInRoom(ws);
+    const room = await validateRoom(roomId);
+    const clientId = singerId ?? getClientId(ws);
+
+    sendToClient(ws, {
+        type: 'singerQueue',
+        clientId,
+        entries: getSingerQueue(room.videoQueue, clientId),
+    });
+}
+
+// Video operations
+async function addVideo(
+    caller: Caller,
+    video: YouTubeVideo,
+    note?: string,
+    allowDuplicate = false,
+    trim: EntryTrim = {},
+): Promise<void> {
+    if (!video || !video.id) {
+        throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid video data');
+    }
+
+    const roomId = await validateClientInRoom(caller);
+    const room = await validateRoom(roomId);
+
+    // Queuing a video twice has to be asked for, e.g. for duets and encores
+    const isDuplicate = (room: Room) =>
+        !allowDuplicate && room.videoQueue.some((e) => e.video.id === video.id);
+    if (isDuplicate(room)) {
+        throw new RoomError(ErrorCode.ALREADY_IN_QUEUE);
+    }
+
+    try {
+        const isEmbeddable = await checkEmbeddable(video.id);
+        if (!isEmbeddable) {
+            throw new RoomError(ErrorCode.VIDEO_NOT_EMBEDDABLE, 'Video is not embeddable');
+        }
+
+        await updateRoom(roomId, (room) => {
+            // Checked again, the video may have been queued during the embeddable check
+            if (isDuplicate(room)) {
+                throw new RoomError(ErrorCode.ALREADY_IN_QUEUE);
+            }
+
+            const entry = createQueueEntry(video, getClientId(caller), note, trim);
+            if (!room.playingNow && room.videoQueue.length <= 0) {
+                startEntry(room, entry);
+            } else {
+                room.videoQueue = [...room.videoQueue, entry];
+                applyQueueMode(room);
+            }
+            room.lastActivity = Date.now();
+        });
+    } catch (error) {
+        if (error instanceof RoomError) {
+            throw error;
+        }
+        serverLogger.error('Failed to add video', { videoId: video.id, error });
+        throw new RoomError(ErrorCode.INTERNAL_ERROR, 'Failed to add video');
+    }
+}
+
+async function playVideoNow(ws: ElysiaWS, video: YouTubeVideo) {
+    const roomId = await validateClientInRoom(ws);
+
+    if (!(await checkEmbeddable(video.id))) {
+        throw new RoomError(ErrorCode.VIDEO_NOT_EMBEDDABLE, 'Video is not embeddable');
+    }
+
+    await updateRoom(roomId, (room) => {
+        playEntryNow(room, createQueueEntry(video, getClientId(ws)));
+        room.skipVotes = [];
+        room.lastActivity = Date.now();
+        applyQueueMode(room);
+    });
+}
+
+async function videoFinished(ws: ElysiaWS, entryId?: string) {
+    const roomId = await validateClientInRoom(ws);
+    const clientId = getClientId(ws);
+    const autoplayEntry = await prepareAutoplayEntry(await validateRoom(roomId));
+
+    await updateRoom(roomId, (room) => {
+        // A second player or a late report would otherwise skip the next song as well
+        if (!isPlaybackReportAccepted(room, clientId, entryId)) {
+            return false;
+        }
+
+        advanceQueue(room, autoplayEntry);
+        room.lastActivity = Date.now();
+    });
+}
+
+// Players report several times a second, so a report reads and writes only these
+const PROGRESS_FIELDS = [
+    'primaryPlayerId',
+    'playingNow',
+    'isPlaying',
+    'currentTime',
+    'playbackUpdatedAt',
+    'playbackRate',
+] as const;
+
+async function reportProgress(ws: ElysiaWS, entryId: string, currentTime: number) {
+    const roomId = await validateClientInRoom(ws);
+    const clientId = getClientId(ws);
+
+    const room = await mutateRoomFields(redis, roomId, PROGRESS_FIELDS, (room) => {
+        if (!isPlaybackReportAccepted(room, clientId, entryId)) {
+            return false;
+        }
+
+        // Within the drift the players tolerate the derived position is as good, and kept
+        if (Math.abs(getPlaybackPosition(room) - currentTime) > SYNC_DRIFT_TOLERANCE) {
+            // The position the player actually reached, sync beacons pass it on to the others
+            setPlayback(room, room.isPlaying, currentTime);
+        }
+    });
+
+    if (room && hasReachedTrimEnd(room)) {
+        await finishAtTrimEnd(await validateRoom(roomId));
+    }
+}
+
+function hasReachedTrimEnd(room: PlaybackState): boolean {
+    const endAt = room.playingNow?.endAt;
+    return !isNullish(endAt) && room.isPlaying && getPlaybackPosition(room) >= endAt;
+}
+
+/**
+ * Advances the queue when the playing entry reached its trimmed end, as a `videoFinished`
+ * from the primary player would.
+ * @param room A recent state of the room, the end is checked again on the stored room.
+ * @returns Whether the queue advanced, the room is saved and broadcast when it did.
+ */
+async function finishAtTrimEnd(room: Room): Promise<boolean> {
+    if (!hasReachedTrimEnd(room)) {
+        return false;
+    }
+
+    const entryId = room.playingNow!.entryId;
+    const autoplayEntry = await prepareAutoplayEntry(room);
+
+    const updated = await updateRoom(room.id, (room) => {
+        // Another instance or a player may have advanced the queue in the meantime
+        if (room.playingNow?.entryId !== entryId || !hasReachedTrimEnd(room)) {
+            return false;
+        }
+
+        advanceQueue(room, autoplayEntry);
+        room.lastActivity = Date.now();
+    });
+    return !!updated;
+}
+
+async function setEntryTrim(ws: ElysiaWS, entryId: string, trim: EntryTrim) {
+    const roomId = await validateClientInRoom(ws);
+    const clientId = getClientId(ws);
+
+    await updateRoom(roomId, (room) => {
+        const entry =
+            room.playingNow?.entryId === entryId
+                ? room.playingNow
+                : findQueueEntryOrThrow(room, { entryId });
+
+        // Members can always trim their own entries, everything else follows the matrix
+        if (entry.addedBy !== clientId && !hasPermission(room, clientId, 'setEntryTrim')) {
+            throw new RoomError(
+                ErrorCode.INSUFFICIENT_PERMISSION,
+                `The ${getRequiredRole(room, 'setEntryTrim')} role is required to setEntryTrim`,
+            );
+        }
+
+        const { startAt, endAt } = validateEntryTrim(trim, entry.video.duration);
+        entry.startAt = startAt;
+        entry.endAt = endAt;
+        room.lastActivity = Date.now();
+    });
+}
+
+async function nextVideo(caller: Caller) {
+    const roomId = await validateClientInRoom(caller);
+    const autoplayEntry = await prepareAutoplayEntry(await validateRoom(roomId));
+
+    await updateRoom(roomId, (room) => {
+        advanceQueue(room, autoplayEntry);
+        room.lastActivity = Date.now();
+    });
+}
+
+// Vote operations
+function getRequiredSkipVotes(room: Room): number {
+    // Members waiting out their reconnect grace period do not count
+    const connected = room.clients.filter((clientId) => wsConnections.has(clientId)).length;
+    return Math.max(1, Math.ceil((connected * room.settings.skipVoteThreshold) / 100));
+}
+
+async function voteSkip(ws: ElysiaWS, vote: boolean) {
+    const roomId = await validateClientInRoom(ws);
+    const clientId = getClientId(ws);
+    // Only a vote for skipping can advance the queue
+    const autoplayEntry = vote ? await prepareAutoplayEntry(await validateRoom(roomId)) : null;
+
+    let votes = 0;
+    let required = 0;
+    await updateRoom(roomId, (room) => {
+        if (!room.playingNow) {
+            throw new RoomError(ErrorCode.INVALID_MESSAGE, 'No video is currently playing');
+        }
+
+        // One vote per member, voting again has no effect
+        room.skipVotes = room.skipVotes.filter(
+            (id) => id !== clientId && room.clients.includes(id),
+        );
+        if (vote) {
+            room.skipVotes.push(clientId);
+        }
+
+        votes = room.skipVotes.length;
+        required = getRequiredSkipVotes(room);
+        if (votes >= required) {
+            advanceQueue(room, autoplayEntry);
+        }
+        room.lastActivity = Date.now();
+    });
+
+    await broadcastToRoom(roomId, { type: 'skipVoteUpdate', votes, required });
+}
 
-    // Move the currently playing video to history
-    // If the video is not in history, add it to history
-    // If the video is in history, move it to the top
-    if (room.playingNow && room.playingNow.id) {
-        room.historyQueue = [
-            room.playingNow,
-            ...room.historyQueue.filter((v) => v.id !== room.playingNow!.id),
-        ];
-    }
+async function upvoteEntry(ws: ElysiaWS, entryId: string, vote: boolean) {
+    const roomId = await validateClientInRoom(ws);
+    const clientId = getClientId(ws);
 
-    if (room.videoQueue.length > 0) {
-        // If there are videos in the queue, play the next video
-        const nextVideo = room.videoQueue.shift()!;
-        room.playingNow = nextVideo;
-        room.isPlaying = true;
-        room.currentTime = 0;
-    } else {
-        // If there are no videos in the queue, stop playing
-        room.playingNow = null;
-        room.isPlaying = false;
-        room.currentTime = 0;
-    }
+    await updateRoom(roomId, (room) => {
+        const entry = findQueueEntryOrThrow(room, { entryId });
 
-    room.lastActivity = Date.now();
+        // One vote per member and entry, voting again has no effect
+        entry.upvotes = (entry.upvotes ?? []).filter((id) => id !== clientId);
+        if (vote) {
+            entry.upvotes.push(clientId);
+        }
 
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'roomUpdate', room: cleanUpRoomField(room) }),
-    ]);
+        applyQueueMode(room);
+        room.lastActivity = Date.now();
+    });
 }
 
 // Playback operations
-async function setVolume(ws: ElysiaWS, volume: number): Promise<void> {
-    const roomId = await validateClientInRoom(ws);
+async function setVolume(caller: Caller, volume: number): Promise<void> {
+    const roomId = await validateClientInRoom(caller);
 
-    await updateRoom(roomId, (room) => {
+    const room = await updateRoom(roomId, (room) => {
         room.volume = Math.min(100, Math.max(0, volume));
+        room.lastActivity = Date.now();
     });
 
-    await broadcastToRoom(roomId, {
-        type: 'volumeChanged',
-        volume: (await getRoomWithCache(roomId)).volume,
-    });
+    await broadcastToRoom(roomId, { type: 'volumeChanged', volume: room!.volume });
 }
 
-async function play(ws: ElysiaWS) {
+async function setPitch(ws: ElysiaWS, pitch: number): Promise<void> {
     const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
 
-    room.isPlaying = true;
-    room.lastActivity = Date.now();
+    await updateRoom(roomId, (room) => {
+        room.pitch = pitch;
+        room.lastActivity = Date.now();
+        if (room.playingNow && room.settings.rememberPlaybackAdjustments) {
+            room.playingNow.pitch = pitch;
+        }
+    });
 
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'play' }),
-    ]);
+    await broadcastToRoom(roomId, { type: 'pitchChanged', pitch });
 }
 
-async function pause(ws: ElysiaWS) {
+async function setPlaybackRate(ws: ElysiaWS, playbackRate: number): Promise<void> {
     const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
 
-    room.isPlaying = false;
-    room.lastActivity = Date.now();
+    await updateRoom(roomId, (room) => {
+        // Anchored first, the time played so far was played at the old tempo
+        setPlayback(room, room.isPlaying);
+        room.playbackRate = playbackRate;
+        room.lastActivity = Date.now();
+        if (room.playingNow && room.settings.rememberPlaybackAdjustments) {
+            room.playingNow.playbackRate = playbackRate;
+        }
+    });
 
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'pause' }),
-    ]);
+    await broadcastToRoom(roomId, { type: 'playbackRateChanged', playbackRate });
 }
 
-async function seek(ws: ElysiaWS, time: number) {
-    const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
+async function play(caller: Caller) {
+    const roomId = await validateClientInRoom(caller);
 
-    room.currentTime = time;
-    room.lastActivity = Date.now();
+    const { room } = (await mutateRoom(roomId, (room) => {
+        setPlayback(room, true);
+        room.lastActivity = Date.now();
+    }))!;
 
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'currentTimeChanged', currentTime: time }),
-    ]);
+    await broadcastToRoom(roomId, {
+        type: 'play',
+        currentTime: room.currentTime,
+        serverTime: room.playbackUpdatedAt,
+    });
 }
 
-async function replay(ws: ElysiaWS) {
-    const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
+async function pause(caller: Caller) {
+    const roomId = await validateClientInRoom(caller);
 
-    if (!room.playingNow) {
-        throw new RoomError(ErrorCode.INVALID_MESSAGE, 'No video is currently playing');
-    }
+    const { room } = (await mutateRoom(roomId, (room) => {
+        setPlayback(room, false);
+        room.lastActivity = Date.now();
+    }))!;
+
+    await broadcastToRoom(roomId, {
+        type: 'pause',
+        currentTime: room.currentTime,
+        serverTime: room.playbackUpdatedAt,
+    });
+}
 
-    room.currentTime = 0;
-    room.isPlaying = true;
-    room.lastActivity = Date.now();
+async function seek(caller: Caller, time: number) {
+    const roomId = await validateClientInRoom(caller);
 
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'replay' }),
-    ]);
+    const { room } = (await mutateRoom(roomId, (room) => {
+        setPlayback(room, room.isPlaying, time);
+        room.lastActivity = Date.now();
+    }))!;
+
+    await broadcastToRoom(roomId, {
+        type: 'currentTimeChanged',
+        currentTime: time,
+        serverTime: room.playbackUpdatedAt,
+    });
 }
 
-async function moveVideoToTop(ws: ElysiaWS, videoId: string) {
-    const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
+async function replay(caller: Caller) {
+    const roomId = await validateClientInRoom(caller);
 
-    const videoForMove = room.videoQueue.find((v) => v.id === videoId);
-    if (!videoForMove) {
-        throw new RoomError(ErrorCode.VIDEO_NOT_FOUND, 'Video not found in queue');
-    }
+    const { room } = (await mutateRoom(roomId, (room) => {
+        if (!room.playingNow) {
+            throw new RoomError(ErrorCode.INVALID_MESSAGE, 'No video is currently playing');
+        }
 
-    room.videoQueue = room.videoQueue.filter((v) => v.id !== videoId);
-    room.videoQueue.unshift(videoForMove);
-    room.lastActivity = Date.now();
+        setPlayback(room, true, room.playingNow.startAt ?? 0);
+        room.lastActivity = Date.now();
+    }))!;
 
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'roomUpdate', room: cleanUpRoomField(room) }),
-    ]);
+    await broadcastToRoom(roomId, {
+        type: 'replay',
+        currentTime: room.currentTime,
+        serverTime: room.playbackUpdatedAt,
+    });
 }
 
 async function shuffleQueue(ws: ElysiaWS) {
     const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
-
-    room.videoQueue = shuffleArray(room.videoQueue);
-    room.lastActivity = Date.now();
-
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'roomUpdate', room: cleanUpRoomField(room) }),
-    ]);
+    await updateRoom(roomId, (room) => {
+        room.videoQueue = shuffleArray(room.videoQueue);
+        applyQueueMode(room);
+        room.lastActivity = Date.now();
+    });
 }
 
 async function clearQueue(ws: ElysiaWS) {
     const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
-
-    room.videoQueue = [];
-    room.lastActivity = Date.now();
-
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'roomUpdate', room: cleanUpRoomField(room) }),
-    ]);
+    await updateRoom(roomId, (room) => {
+        room.videoQueue = [];
+        room.lastActivity = Date.now();
+    });
 }
 
 async function clearHistory(ws: ElysiaWS) {
     const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
+    await updateRoom(roomId, (room) => {
+        room.historyQueue = [];
+        room.lastActivity = Date.now();
+    });
+}
 
-    room.historyQueue = [];
-    room.lastActivity = Date.now();
+const QUEUE_OPERATION_MESSAGE_TYPES: Record<QueueOperation['op'], ClientMessageType> = {
+    remove: 'removeVideoFromQueue',
+    move: 'moveVideo',
+    moveToTop: 'moveToTop',
+    moveToBottom: 'moveToBottom',
+};
+
+function applyQueueOperation(room: Room, clientId: string, operation: QueueOperation): void {
+    const entry = findQueueEntryOrThrow(room, operation);
+    const type = QUEUE_OPERATION_MESSAGE_TYPES[operation.op];
+
+    // Members can always remove their own entries, everything else follows the matrix
+    const isOwnRemoval = operation.op === 'remove' && entry.addedBy === clientId;
+    if (!isOwnRemoval && !hasPermission(room, clientId, type)) {
+        throw new RoomError(
+            ErrorCode.INSUFFICIENT_PERMISSION,
+            `The ${getRequiredRole(room, type)} role is required to ${type}`,
+        );
+    }
 
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'roomUpdate', room: cleanUpRoomField(room) }),
-    ]);
-}
+    switch (operation.op) {
+        case 'remove':
+            room.videoQueue = room.videoQueue.filter((e) => e.entryId !== entry.entryId);
+            break;
 
-async function removeVideoFromQueue(ws: ElysiaWS, videoId: string) {
-    const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
+        case 'moveToTop':
+            room.videoQueue = moveQueueEntry(room.videoQueue, entry.entryId, 0);
+            // Pinned entries stay in front when the queue plays in fair rotation
+            room.videoQueue[0] = { ...entry, pinned: isQueueAutoOrdered(room) };
+            break;
 
-    room.videoQueue = room.videoQueue.filter((v) => v.id !== videoId);
-    room.lastActivity = Date.now();
+        case 'moveToBottom':
+            room.videoQueue = moveQueueEntry(room.videoQueue, entry.entryId, Infinity);
+            break;
 
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'roomUpdate', room: cleanUpRoomField(room) }),
-    ]);
+        case 'move':
+            room.videoQueue = moveQueueEntry(room.videoQueue, entry.entryId, operation.toIndex);
+            break;
+    }
 }
 
-async function addVideoAndMoveToTop(ws: ElysiaWS, video: YouTubeVideo) {
+/**
+ * Applies queue operations in order with a single write and a single `roomPatch`.
+ * Operations run against the queue as left by the previous ones; when one of them fails
+ * nothing is saved. A request that raced another one is applied again on the queue that
+ * one left.
+ */
+async function updateQueue(caller: Caller, operations: QueueOperation[]) {
+    const roomId = await validateClientInRoom(caller);
+    const clientId = getClientId(caller);
+
+    await updateRoom(roomId, (room) => {
+        for (const operation of operations) {
+            applyQueueOperation(room, clientId, operation);
+        }
+        room.lastActivity = Date.now();
+    });
+}
+
+async function addVideoAndMoveToTop(
+    ws: ElysiaWS,
+    video: YouTubeVideo,
+    note?: string,
+    trim: EntryTrim = {},
+) {
     const roomId = await validateClientInRoom(ws);
-    const room = await validateRoom(roomId);
 
     if (!(await checkEmbeddable(video.id))) {
         throw new RoomError(ErrorCode.VIDEO_NOT_EMBEDDABLE, 'Video is not embeddable');
     }
 
-    room.videoQueue = room.videoQueue.filter((v) => v.id !== video.id);
-
-    if (!room?.playingNow && room?.videoQueue?.length <= 0) {
-        room.playingNow = video;
-        room.isPlaying = true;
-        room.currentTime = 0;
-    } else {
-        room.videoQueue = [video, ...room.videoQueue];
-    }
-    room.lastActivity = Date.now();
+    await updateRoom(roomId, (room) => {
+        const entry = createQueueEntry(video, getClientId(ws), note, trim);
+        room.videoQueue = room.videoQueue.filter((e) => e.video.id !== video.id);
 
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'roomUpdate', room: cleanUpRoomField(room) }),
-    ]);
+        if (!room.playingNow && room.videoQueue.length <= 0) {
+            startEntry(room, entry);
+        } else {
+            room.videoQueue = [{ ...entry, pinned: isQueueAutoOrdered(room) }, ...room.videoQueue];
+        }
+        room.lastActivity = Date.now();
+    });
 }
 
 async function importPlaylist(ws: ElysiaWS, playlistUrlOrId: string) {
@@ -537,14 +2064,14 @@ async function importPlaylist(ws: ElysiaWS, playlistUrlOrId: string) {
     // Batch processing with a limit of 50 videos per batch
     const batchSize = 50;
     const timeoutMs = 100; // Timeout between batches
-    const embeddableVideos = [];
+    const embeddableVideos: YouTubeVideo[] = [];
 
     for (let i = 0; i < videoCandidates.length; i += batchSize) {
         const batch = videoCandidates.slice(i, i + batchSize);
 
         const batchResults = await Promise.all(
             batch.map(async (video) => {
-                const isNotInQueue = !room.videoQueue.some((q) => q.id === video.id);
+                const isNotInQueue = !room.videoQueue.some((e) => e.video.id === video.id);
                 if (isNotInQueue && (await checkEmbeddable(video.id))) {
                     return video;
                 }
@@ -561,20 +2088,24 @@ async function importPlaylist(ws: ElysiaWS, playlistUrlOrId: string) {
         }
     }
 
-    // Add the embeddable videos to the room queue
-    room.videoQueue = [...room.videoQueue, ...embeddableVideos];
-    room.lastActivity = Date.now();
-
-    if (!room?.playingNow && room?.videoQueue?.length > 0) {
-        room.playingNow = room.videoQueue.shift()!;
-        room.isPlaying = true;
-        room.currentTime = 0;
-    }
+    // Add the embeddable videos to the room queue, skipping those queued during the lookup
+    const clientId = getClientId(ws);
+    await updateRoom(roomId, (room) => {
+        room.videoQueue = [
+            ...room.videoQueue,
+            ...embeddableVideos
+                .filter((video) => !room.videoQueue.some((e) => e.video.id === video.id))
+                .map((video) => createQueueEntry(video, clientId)),
+        ];
+        applyQueueMode(room);
+        room.lastActivity = Date.now();
 
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'roomUpdate', room: cleanUpRoomField(room) }),
-    ]);
+        const next = room.playingNow ? null : takeNextEntry(room);
+        if (next) {
+            startEntry(room, next);
+            applyQueueMode(room);
+        }
+    });
 }
 
 // Broadcasting utilities
@@ -582,205 +2113,661 @@ async function broadcastToRoom(roomId: string, message: ServerMessage): Promise<
     wsServer.server?.publish(roomId, JSON.stringify(message));
 }
 
-async function updateRoomActivity(roomId: string) {
-    const room = await validateRoom(roomId);
-    room.lastActivity = Date.now();
-    await redis.set(`room:${roomId}`, JSON.stringify(room));
-}
+/**
+ * Sends `message` to the members of `room` connected to this instance whose connection
+ * negotiated `feature`, and `fallback` to the others when there is one.
+ */
+function sendToRoomMembers(
+    room: Room,
+    feature: ProtocolFeature,
+    message: ServerMessage,
+    fallback?: ServerMessage,
+): void {
+    for (const clientId of room.clients) {
+        const ws = wsConnections.get(clientId);
+        if (!ws) {
+            continue;
+        }
 
-// Optimize room update with memoization and batch updates
-const roomCache = new Map<string, { room: Room; timestamp: number }>();
-const CACHE_TTL = 2000; // 2 seconds cache TTL
+        if (supportsFeature(ws, feature)) {
+            sendToClient(ws, message);
+        } else if (fallback) {
+            sendToClient(ws, fallback);
+        }
+    }
+}
 
-async function getRoomWithCache(roomId: string): Promise<Room> {
+/**
+ * Sends what a committed change did to the room as a `roomPatch` to clients that negotiated
+ * delta updates and as the full room to the others, and emits the matching webhook events.
+ */
+async function publishRoomChanges(previous: Room, room: Room): Promise<void> {
+    // One position time for both, otherwise a playing room always differs in its position
     const now = Date.now();
-    const cached = roomCache.get(roomId);
-
-    if (cached && now - cached.timestamp < CACHE_TTL) {
-        return cached.room;
+    const cleanedRoom = cleanUpRoomField(room, now);
+    const { set, unset } = diffRoomState(
+        JSON.parse(JSON.stringify(cleanUpRoomField(previous, now))),
+        JSON.parse(JSON.stringify(cleanedRoom)),
+    );
+
+    sendToRoomMembers(
+        room,
+        'deltaUpdates',
+        { type: 'roomPatch', version: room.version, baseVersion: previous.version, set, unset },
+        { type: 'roomUpdate', room: cleanedRoom },
+    );
+
+    if (previous.playingNow?.entryId !== room.playingNow?.entryId) {
+        if (previous.playingNow) {
+            emitWebhookEvent(room, 'songFinished', { entry: previous.playingNow });
+        }
+        if (room.playingNow) {
+            emitWebhookEvent(room, 'songStarted', { entry: room.playingNow });
+        }
+    }
+    if (JSON.stringify(previous.videoQueue) !== JSON.stringify(room.videoQueue)) {
+        emitWebhookEvent(room, 'queueChanged', { queue: room.videoQueue });
     }
+}
 
+async function resyncRoom(ws: ElysiaWS): Promise<void> {
+    const roomId = await validateClientInRoom(ws);
     const room = await validateRoom(roomId);
-    roomCache.set(roomId, { room, timestamp: now });
-    return room;
+    sendToClient(ws, { type: 'roomUpdate', room: cleanUpRoomField(room) });
 }
 
-async function updateRoom(roomId: string, updater: (room: Room) => void): Promise<Room> {
-    const room = await getRoomWithCache(roomId);
-
-    updater(room);
-    room.lastActivity = Date.now();
-
-    await Promise.all([
-        redis.set(`room:${roomId}`, JSON.stringify(room)),
-        broadcastToRoom(roomId, { type: 'roomUpdate', room: cleanUpRoomField(room) }),
-    ]);
+// Room storage
+// Changes the room without bumping its version, see mutateRoom in the room store. Writes
+// made while a command runs append its event to the log.
+async function mutateRoom(roomId: string, mutate: RoomMutator): Promise<RoomMutation | null> {
+    const result = await mutateStoredRoom(redis, roomId, mutate, toRoomEventEntry);
+    if (result?.appended) {
+        persistRoomEvent(result.appended);
+    }
+    return result;
+}
 
-    // Update cache
-    roomCache.set(roomId, { room, timestamp: Date.now() });
+/**
+ * Atomically changes the room, bumps its version and publishes the change, see mutateRoom.
+ * @returns The updated room, or null when `mutate` returned false.
+ */
+async function updateRoom(roomId: string, mutate: RoomMutator): Promise<Room | null> {
+    const result = await updateStoredRoom(redis, roomId, mutate, toRoomEventEntry);
+    if (!result) {
+        return null;
+    }
+    if (result.appended) {
+        persistRoomEvent(result.appended);
+    }
 
-    return room;
+    await publishRoomChanges(result.previous, result.room);
+    return result.room;
 }
 
-// Add type guard for client messages
-function isValidClientMessage(message: unknown): message is ClientMessage {
-    if (!message || typeof message !== 'object') return false;
+async function updateRoomActivity(roomId: string) {
+    await mutateRoom(roomId, (room) => {
+        room.lastActivity = Date.now();
+    });
+}
 
-    const msg = message as Record<string, unknown>;
-    if (!msg.type || typeof msg.type !== 'string') return false;
+// Handler for incoming messages from clients
+// Answered with fresh data each time, so their retries are handled again instead of replayed
+const REPEATABLE_MESSAGE_TYPES: ClientMessageType[] = [
+    'hello',
+    'ping',
+    'resyncRoom',
+    'getSingerQueue',
+    // Sent several times a second by players, a stale position is ignored anyway
+    'reportProgress',
+];
+
+// Event log utilities
+// Reads and frequent bookkeeping, which change nothing worth keeping in the event log
+const UNLOGGED_MESSAGE_TYPES: ClientMessageType[] = [
+    ...REPEATABLE_MESSAGE_TYPES,
+    'getWebhookDeliveries',
+    'getRoomEvents',
+    'rebuildRoomState',
+];
+
+async function sendRoomEvents(ws: ElysiaWS, after?: string, limit?: number) {
+    const roomId = await validateClientInRoom(ws);
+    sendToClient(ws, { type: 'roomEvents', events: await getRoomEvents(roomId, after, limit) });
+}
 
-    return true;
+async function sendRebuiltRoomState(ws: ElysiaWS, version?: number) {
+    const roomId = await validateClientInRoom(ws);
+    sendToClient(ws, { type: 'roomStateRebuilt', ...(await rebuildRoomState(roomId, version)) });
 }
 
-// Handler for incoming messages from clients
-async function handleMessage(ws: ElysiaWS, message: unknown): Promise<void> {
-    if (!isValidClientMessage(message)) {
-        sendToClient(ws, {
-            type: 'error',
-            message: 'Invalid message format',
-        });
-        return;
-    }
+// Runs a parsed and authorized message
+async function dispatchMessage(ws: ElysiaWS, message: ClientMessage, receivedAt: number) {
+    switch (message.type) {
+        case 'hello':
+            await hello(ws, message.protocolVersion, message.features ?? [], message.client);
+            break;
+
+        case 'resyncRoom':
+            await resyncRoom(ws);
+            break;
+
+        case 'ping':
+            syncClock(ws, receivedAt, message.clientSendTime, message.lastPongReceivedAt);
+            await touchPresence(ws);
+            break;
+
+        case 'createRoom':
+            await createRoom(ws, message.password, validateProfile(message));
+            break;
+
+        case 'joinRoom':
+            await joinRoom(ws, message.roomId, message.password, false, validateProfile(message));
+            break;
+
+        case 'reJoinRoom':
+            await reJoinRoom(
+                ws,
+                message.roomId,
+                message.password,
+                message.sessionToken,
+                validateProfile(message),
+            );
+            break;
+
+        case 'updateProfile':
+            await updateProfile(ws, validateProfile(message));
+            break;
+
+        case 'leaveRoom':
+            await leaveRoom(ws);
+            break;
+
+        case 'closeRoom':
+            await handleCloseRoom(ws);
+            break;
+
+        case 'sendMessage':
+            const roomId = await validateClientInRoom(ws);
+            await broadcastToRoom(roomId, {
+                type: 'message',
+                sender: getClientId(ws),
+                content: message.message,
+            });
+            break;
 
-    try {
-        if (message?.requiresAck && message.id) {
-            sendToClient(ws, { type: 'ack', messageId: message.id });
-        }
+        case 'addVideo':
+            await addVideo(ws, message.video, message.note, message.allowDuplicate === true, {
+                startAt: message.startAt,
+                endAt: message.endAt,
+            });
+            break;
+
+        case 'playNow':
+            await playVideoNow(ws, message.video);
+            break;
+
+        case 'nextVideo':
+            await nextVideo(ws);
+            break;
+
+        case 'setVolume':
+            await setVolume(ws, message.volume);
+            break;
+
+        case 'setPitch':
+            await setPitch(ws, message.pitch);
+            break;
+
+        case 'setPlaybackRate':
+            await setPlaybackRate(ws, message.playbackRate);
+            break;
+
+        case 'replay':
+            await replay(ws);
+            break;
+
+        case 'play':
+            await play(ws);
+            break;
+
+        case 'pause':
+            await pause(ws);
+            break;
+
+        case 'seek':
+            await seek(ws, message.time);
+            break;
+
+        case 'videoFinished':
+            await videoFinished(ws, message.entryId);
+            break;
+
+        case 'reportProgress':
+            await reportProgress(ws, message.entryId, message.currentTime);
+            break;
+
+        case 'moveToTop':
+            await updateQueue(ws, [
+                { op: 'moveToTop', entryId: message.entryId, videoId: message.videoId },
+            ]);
+            break;
+
+        case 'moveToBottom':
+            await updateQueue(ws, [{ op: 'moveToBottom', entryId: message.entryId }]);
+            break;
+
+        case 'moveVideo':
+            await updateQueue(ws, [
+                { op: 'move', entryId: message.entryId, toIndex: message.toIndex },
+            ]);
+            break;
+
+        case 'batchQueueOperations':
+            await updateQueue(ws, message.operations);
+            break;
+
+        case 'voteSkip':
+            await voteSkip(ws, message.vote ?? true);
+            break;
+
+        case 'upvoteEntry':
+            await upvoteEntry(ws, message.entryId, message.vote ?? true);
+            break;
+
+        case 'shuffleQueue':
+            await shuffleQueue(ws);
+            break;
+
+        case 'clearQueue':
+            await clearQueue(ws);
+            break;
+
+        case 'clearHistory':
+            await clearHistory(ws);
+            break;
+
+        case 'removeVideoFromQueue':
+            await updateQueue(ws, [
+                { op: 'remove', entryId: message.entryId, videoId: message.videoId },
+            ]);
+            break;
+
+        case 'addVideoAndMoveToTop':
+            await addVideoAndMoveToTop(ws, message.video, message.note, {
+                startAt: message.startAt,
+                endAt: message.endAt,
+            });
+            break;
 
-        switch (message.type) {
-            case 'ping':
-                sendToClient(ws, { type: 'pong' });
-                break;
+        case 'setEntryTrim':
+            await setEntryTrim(ws, message.entryId, {
+                startAt: message.startAt,
+                endAt: message.endAt,
+            });
+            break;
 
-            case 'createRoom':
-                await createRoom(ws, message.password);
-                break;
+        case 'importPlaylist':
+            await importPlaylist(ws, message.playlistUrlOrId);
+            break;
 
-            case 'joinRoom':
-                await joinRoom(ws, message.roomId, message.password);
-                break;
+        case 'setRole':
+            await setClientRole(ws, message.clientId, message.role);
+            break;
 
-            case 'reJoinRoom':
-                // With set isRejoin to true will throw REJOIN_ROOM_NOT_FOUND
-                await joinRoom(ws, message.roomId, message.password, true);
-                break;
+        case 'transferHost':
+            await transferHost(ws, message.clientId);
+            break;
 
-            case 'leaveRoom':
-                await leaveRoom(ws);
-                break;
+        case 'voteHost':
+            await voteHost(ws, message.clientId);
+            break;
 
-            case 'closeRoom':
-                await handleCloseRoom(ws);
-                break;
+        case 'kickClient':
+        case 'banClient':
+            await kickClient(ws, message.clientId, message.reason, message.type === 'banClient');
+            break;
 
-            case 'sendMessage':
-                const roomId = await validateClientInRoom(ws);
-                await broadcastToRoom(roomId, {
-                    type: 'message',
-                    sender: ws.id,
-                    content: message.message,
-                });
-                break;
+        case 'unbanClient':
+            await unbanClient(ws, message.clientId);
+            break;
 
-            case 'addVideo':
-                if (!message.video) {
-                    throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Missing video data');
-                }
-                await addVideo(ws, message.video);
-                break;
+        case 'muteClient':
+        case 'unmuteClient':
+            await setClientMuted(ws, message.clientId, message.type === 'muteClient');
+            break;
 
-            case 'playNow':
-                if (!message.video) {
-                    throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Missing video data');
-                }
-                await playVideoNow(ws, message.video);
-                break;
+        case 'createApiToken':
+            await createApiToken(ws, message.name, message.role);
+            break;
 
-            case 'nextVideo':
-                await nextVideo(ws);
-                break;
+        case 'revokeApiToken':
+            await revokeApiToken(ws, message.tokenId);
+            break;
 
-            case 'setVolume':
-                if (typeof message.volume !== 'number') {
-                    throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid volume value');
-                }
-                await setVolume(ws, message.volume);
-                break;
+        case 'addWebhook':
+            await addWebhook(ws, message.url, message.events);
+            break;
 
-            case 'replay':
-                await replay(ws);
-                break;
+        case 'removeWebhook':
+            await removeWebhook(ws, message.webhookId);
+            break;
 
-            case 'play':
-                await play(ws);
-                break;
+        case 'getWebhookDeliveries':
+            await sendWebhookDeliveries(ws);
+            break;
 
-            case 'pause':
-                await pause(ws);
-                break;
+        case 'getRoomEvents':
+            await sendRoomEvents(ws, message.after, message.limit);
+            break;
 
-            case 'seek':
-                if (typeof message.time !== 'number') {
-                    throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid time value');
-                }
-                await seek(ws, message.time);
-                break;
+        case 'rebuildRoomState':
+            await sendRebuiltRoomState(ws, message.version);
+            break;
 
-            case 'videoFinished':
-                await nextVideo(ws);
-                break;
+        case 'getSingerQueue':
+            await sendSingerQueue(ws, message.clientId);
+            break;
 
-            case 'moveToTop':
-                if (!message.videoId || typeof message.videoId !== 'string') {
-                    throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid video ID');
-                }
-                await moveVideoToTop(ws, message.videoId);
-                break;
+        case 'updateRoomSettings':
+            await updateRoomSettings(ws, message.settings);
+            break;
+    }
+}
 
-            case 'shuffleQueue':
-                await shuffleQueue(ws);
-                break;
+async function handleMessage(ws: ElysiaWS, raw: unknown): Promise<void> {
+    // Taken first so clock sync does not count the time spent handling the message
+    const receivedAt = Date.now();
+    const messageId = getRawMessageId(raw);
+    // Set once the message is claimed, its outcome is then kept for retries
+    let processedMessageKey: string | undefined;
 
-            case 'clearQueue':
-                await clearQueue(ws);
-                break;
+    try {
+        const message = parseClientMessage(raw);
 
-            case 'clearHistory':
-                await clearHistory(ws);
-                break;
+        // Acknowledges receipt only, before the outcome is known. Kept for clients that
+        // have not moved to `results` yet, which report the outcome instead.
+        if (message.requiresAck && !supportsFeature(ws, 'results')) {
+            sendToClient(ws, { type: 'ack', messageId: message.id });
+        }
 
-            case 'removeVideoFromQueue':
-                if (!message.videoId || typeof message.videoId !== 'string') {
-                    throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid video ID');
+        if (!REPEATABLE_MESSAGE_TYPES.includes(message.type)) {
+            const key = getProcessedMessageKey(getClientId(ws), message.id);
+            const previous = await claimMessage(redis, key, MESSAGE_DEDUP_WINDOW);
+            if (previous) {
+                // A retry: answer with the original outcome, or tell the client the first
+                // attempt is still running so it waits for that outcome instead of retrying
+                if (previous === PENDING_OUTCOME) {
+                    sendToClient(ws, { type: 'ack', messageId: message.id, pending: true });
+                } else {
+                    reportOutcome(ws, message.id, JSON.parse(previous));
                 }
-                await removeVideoFromQueue(ws, message.videoId);
-                break;
+                return;
+            }
+            processedMessageKey = key;
+        }
 
-            case 'addVideoAndMoveToTop':
-                if (!message.video) {
-                    throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Missing video data');
-                }
-                await addVideoAndMoveToTop(ws, message.video);
-                break;
+        await authorizeMessage(ws, message.type);
+        if (UNLOGGED_MESSAGE_TYPES.includes(message.type)) {
+            await dispatchMessage(ws, message, receivedAt);
+        } else {
+            await runRoomCommand(getClientId(ws), message, () =>
+                dispatchMessage(ws, message, receivedAt),
+            );
+        }
 
-            case 'importPlaylist':
-                if (!message.playlistUrlOrId || typeof message.playlistUrlOrId !== 'string') {
-                    throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Invalid playlist URL or ID');
-                }
-                await importPlaylist(ws, message.playlistUrlOrId);
-                break;
+        if (!processedMessageKey && !supportsFeature(ws, 'results')) {
+            return;
+        }
 
-            default:
-                throw new RoomError(
-                    ErrorCode.INVALID_MESSAGE,
-                    `Unknown message type: ${(message as { type: string }).type}`,
-                );
+        const outcome: MessageOutcome = {
+            success: true,
+            roomVersion: await getClientRoomVersion(ws),
+        };
+        if (processedMessageKey) {
+            await recordOutcome(redis, processedMessageKey, outcome, MESSAGE_DEDUP_WINDOW);
+        }
+        // `hello` is answered by `welcome`
+        if (message.type !== 'hello') {
+            reportOutcome(ws, message.id, outcome);
+        }
+    } catch (error) {
+        const outcome = handleError(
+            ws,
+            error instanceof Error ? error : new Error('Unknown error'),
+            messageId,
+        );
+        // A busy room applied nothing, so a retry with the same id has to run again
+        if (processedMessageKey && outcome.code === ErrorCode.ROOM_BUSY) {
+            await releaseMessage(redis, processedMessageKey);
+        } else if (processedMessageKey) {
+            await recordOutcome(redis, processedMessageKey, outcome, MESSAGE_DEDUP_WINDOW);
         }
+    }
+}
+
+// REST API for integrations, authenticated with a room API token and running the same
+// operations as the socket messages
+const HTTP_STATUS_BY_ERROR_CODE: Partial<Record<ErrorCode, number>> = {
+    [ErrorCode.INVALID_MESSAGE]: 400,
+    [ErrorCode.INVALID_API_TOKEN]: 401,
+    [ErrorCode.INSUFFICIENT_PERMISSION]: 403,
+    [ErrorCode.ROOM_NOT_FOUND]: 404,
+    [ErrorCode.VIDEO_NOT_FOUND]: 404,
+    [ErrorCode.CLIENT_NOT_FOUND]: 404,
+    [ErrorCode.ALREADY_IN_QUEUE]: 409,
+    [ErrorCode.ROOM_BUSY]: 409,
+    [ErrorCode.VIDEO_NOT_EMBEDDABLE]: 422,
+};
+
+const PLAYBACK_ACTION_MESSAGE_TYPES = {
+    play: 'play',
+    pause: 'pause',
+    next: 'nextVideo',
+    replay: 'replay',
+    seek: 'seek',
+} satisfies Record<string, ClientMessageType>;
+
+async function getVideoById(videoId: string): Promise<YouTubeVideo> {
+    try {
+        const video = await youtubeSr.getVideo(`https://www.youtube.com/watch?v=${videoId}`);
+        return cleanUpVideoField(video);
     } catch (error) {
-        handleError(ws, error instanceof Error ? error : new Error('Unknown error'));
+        serverLogger.warn('Failed to look up video', { videoId, error });
+        throw new RoomError(ErrorCode.VIDEO_NOT_FOUND);
     }
 }
 
+// Same answer as a `result`, the room version tells when the change reached the sockets
+async function completeApiRequest(caller: Caller): Promise<MessageOutcome> {
+    return { success: true, roomVersion: await getClientRoomVersion(caller) };
+}
+
+const roomApi = new Elysia({
+    prefix: '/rooms',
+    detail: { tags: ['Rooms'], security: [{ roomToken: [] }] },
+})
+    .onError(({ error, set }) => {
+        if (error instanceof RoomError) {
+            set.status = HTTP_STATUS_BY_ERROR_CODE[error.code] ?? 400;
+            return { code: error.code, message: error.message };
+        }
+    })
+    .get(
+        '/:id',
+        async ({ params: { id }, headers: { authorization } }) => {
+            await authenticateApiRequest(id, authorization);
+            const room = await validateRoom(id);
+            return { room: cleanUpRoomField(room), presence: await getPresenceRoster(id) };
+        },
+        {
+            params: t.Object({ id: t.String() }),
+            detail: { summary: 'Get the room state, queue and members' },
+        },
+    )
+    .get(
+        '/:id/events',
+        async ({ params: { id }, headers: { authorization }, query: { after, limit } }) => {
+            const caller = await authenticateApiRequest(id, authorization);
+            await authorizeMessage(caller, 'getRoomEvents');
+            return getRoomEvents(id, after, limit);
+        },
+        {
+            params: t.Object({ id: t.String() }),
+            query: t.Object({
+                after: t.Optional(t.String({ maxLength: 32 })),
+                limit: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_ROOM_EVENTS_PAGE })),
+            }),
+            detail: {
+                summary: 'List the commands applied to the room, oldest first',
+                description: 'Pass the id of the last event received as `after` to page.',
+            },
+        },
+    )
+    .get(
+        '/:id/events/state',
+        async ({ params: { id }, headers: { authorization }, query: { version } }) => {
+            const caller = await authenticateApiRequest(id, authorization);
+            await authorizeMessage(caller, 'rebuildRoomState');
+            return rebuildRoomState(id, version);
+        },
+        {
+            params: t.Object({ id: t.String() }),
+            query: t.Object({ version: t.Optional(t.Numeric({ minimum: 0 })) }),
+            detail: {
+                summary: 'Rebuild the room state by replaying its events',
+                description: 'Replays the events up to `version`, or the whole log.',
+            },
+        },
+    )
+    .post(
+        '/:id/queue',
+        async ({ params: { id }, headers: { authorization }, body }) => {
+            const caller = await authenticateApiRequest(id, authorization);
+            await authorizeMessage(caller, 'addVideo');
+            return runRoomCommand(getClientId(caller), { type: 'addVideo', ...body }, async () => {
+                await addVideo(
+                    caller,
+                    await getVideoById(body.videoId),
+                    body.note,
+                    body.allowDuplicate,
+                    {
+                        startAt: body.startAt,
+                        endAt: body.endAt,
+                    },
+                );
+                return completeApiRequest(caller);
+            });
+        },
+        {
+            params: t.Object({ id: t.String() }),
+            body: t.Object({
+                videoId: t.String({ pattern: '^[\\w-]{11}$' }),
+                note: t.Optional(t.String()),
+                allowDuplicate: t.Optional(t.Boolean()),
+                startAt: t.Optional(t.Number({ minimum: 0 })),
+                endAt: t.Optional(t.Number({ minimum: 0 })),
+            }),
+            detail: { summary: 'Add a video to the queue' },
+        },
+    )
+    .delete(
+        '/:id/queue/:entryId',
+        async ({ params: { id, entryId }, headers: { authorization } }) => {
+            const caller = await authenticateApiRequest(id, authorization);
+            const message = { type: 'removeVideoFromQueue' as const, entryId };
+            return runRoomCommand(getClientId(caller), message, async () => {
+                await updateQueue(caller, [{ op: 'remove', entryId }]);
+                return completeApiRequest(caller);
+            });
+        },
+        {
+            params: t.Object({ id: t.String(), entryId: t.String() }),
+            detail: { summary: 'Remove an entry from the queue' },
+        },
+    )
+    .post(
+        '/:id/queue/:entryId/move',
+        async ({ params: { id, entryId }, headers: { authorization }, body: { toIndex } }) => {
+            const caller = await authenticateApiRequest(id, authorization);
+            const message = { type: 'moveVideo' as const, entryId, toIndex };
+            return runRoomCommand(getClientId(caller), message, async () => {
+                await updateQueue(caller, [{ op: 'move', entryId, toIndex }]);
+                return completeApiRequest(caller);
+            });
+        },
+        {
+            params: t.Object({ id: t.String(), entryId: t.String() }),
+            body: t.Object({ toIndex: t.Integer() }),
+            detail: { summary: 'Move a queue entry to another position' },
+        },
+    )
+    .post(
+        '/:id/playback',
+        async ({ params: { id }, headers: { authorization }, body: { action, time } }) => {
+            const caller = await authenticateApiRequest(id, authorization);
+            const type = PLAYBACK_ACTION_MESSAGE_TYPES[action];
+            await authorizeMessage(caller, type);
+            return runRoomCommand(getClientId(caller), { type, time }, async () => {
+                switch (action) {
+                    case 'play':
+                        await play(caller);
+                        break;
+                    case 'pause':
+                        await pause(caller);
+                        break;
+                    case 'next':
+                        await nextVideo(caller);
+                        break;
+                    case 'replay':
+                        await replay(caller);
+                        break;
+                    case 'seek':
+                        if (isNullish(time)) {
+                            throw new RoomError(
+                                ErrorCode.INVALID_MESSAGE,
+                                'Seeking requires a time',
+                            );
+                        }
+                        await seek(caller, time);
+                        break;
+                }
+
+                return completeApiRequest(caller);
+            });
+        },
+        {
+            params: t.Object({ id: t.String() }),
+            body: t.Object({
+                action: t.Union([
+                    t.Literal('play'),
+                    t.Literal('pause'),
+                    t.Literal('next'),
+                    t.Literal('replay'),
+                    t.Literal('seek'),
+                ]),
+                // Position in seconds, required to seek
+                time: t.Optional(t.Number({ minimum: 0 })),
+            }),
+            detail: { summary: 'Play, pause, skip, replay or seek the playing video' },
+        },
+    )
+    .put(
+        '/:id/volume',
+        async ({ params: { id }, headers: { authorization }, body: { volume } }) => {
+            const caller = await authenticateApiRequest(id, authorization);
+            await authorizeMessage(caller, 'setVolume');
+            return runRoomCommand(getClientId(caller), { type: 'setVolume', volume }, async () => {
+                await setVolume(caller, volume);
+                return completeApiRequest(caller);
+            });
+        },
+        {
+            params: t.Object({ id: t.String() }),
+            body: t.Object({ volume: t.Number({ minimum: 0, maximum: 100 }) }),
+            detail: { summary: 'Set the room volume' },
+        },
+    );
+
 export const wsServer = new Elysia({
     websocket: {
         idleTimeout: 960,
@@ -790,12 +2777,25 @@ export const wsServer = new Elysia({
     .on('start', async () => {
         serverLogger.info('Server started');
         // Sync data from MongoDB to Redis on startup
+        await migrateRoomLayout(redis).catch((error) => {
+            serverLogger.error('Failed to migrate rooms to the hash layout', { error });
+        });
         await syncFromMongoDB(redis).catch((error) => {
             serverLogger.error('Failed to sync from MongoDB', { error });
         });
         scheduleCleanupJobs().catch((error) => {
             serverLogger.error('Failed to schedule cleanup jobs', { error });
         });
+        setInterval(() => {
+            markSilentClientsAway().catch((error) => {
+                serverLogger.error('Failed to update away presence', { error });
+            });
+        }, PRESENCE_AWAY_TIMEOUT / 2);
+        setInterval(() => {
+            broadcastSyncBeacons().catch((error) => {
+                serverLogger.error('Failed to broadcast sync beacons', { error });
+            });
+        }, SYNC_BEACON_INTERVAL);
     })
     .on('stop', async () => {
         serverLogger.info('Server stop initiated');
@@ -811,22 +2811,42 @@ export const wsServer = new Elysia({
     })
     .state('wsConnections', wsConnections)
     .ws('/ws', {
-        schema: {
-            body: t.Object({
-                type: t.String(),
-                payload: t.Any(),
-            }),
-        },
         open: async (ws) => {
             wsLogger.info(`Client connected`, { clientId: ws.id });
-            wsConnections.set(ws.id, ws);
             sendToClient(ws, { type: 'pong' });
+            try {
+                await createSession(ws, getRequestIp(ws.data.request, ws.data.server));
+            } catch (error) {
+                wsLogger.error('Failed to create client session', { clientId: ws.id, error });
+            }
         },
         close: async (ws) => {
             wsLogger.info(`Client disconnected`, { clientId: ws.id });
             try {
-                await leaveCurrentRoom(ws);
-                wsConnections.delete(ws.id);
+                const clientId = getClientId(ws);
+                wsClientIds.delete(ws.id);
+                wsProtocols.delete(ws.id);
+
+                // The session has already been resumed by a newer socket
+                if (wsConnections.get(clientId)?.id !== ws.id) {
+                    return;
+                }
+
+                wsConnections.delete(clientId);
+                lastPings.delete(clientId);
+                clockExchanges.delete(clientId);
+                clockSamples.delete(clientId);
+                await redis.hset(`client:${clientId}`, 'lastSeen', Date.now());
+
+                const clientInfo = await getClientInfo(clientId);
+                if (clientInfo?.roomId) {
+                    await updatePresence(clientInfo.roomId, clientId, { status: 'away' });
+                    // Fail over right away, the queue must not wait for the grace period
+                    await electPrimaryPlayer(clientInfo.roomId);
+                }
+
+                // Keep the room membership for a while so a reconnecting client can resume it
+                scheduleDisconnectLeave(clientId);
             } catch (error) {
                 wsLogger.error('Error during client disconnect cleanup', {
                     clientId: ws.id,
@@ -834,20 +2854,32 @@ export const wsServer = new Elysia({
                 });
             }
         },
-        message: (ws, message: ClientMessage) => handleMessage(ws, message),
+        message: (ws, message: unknown) => handleMessage(ws, message),
     })
     .use(cors())
-    .use(swagger())
+    .use(
+        swagger({
+            documentation: {
+                tags: [{ name: 'Rooms', description: 'Inspect and control a room' }],
+                components: {
+                    securitySchemes: {
+                        roomToken: {
+                            type: 'http',
+                            scheme: 'bearer',
+                            description:
+                                'Room API token issued to the host with the createApiToken message',
+                        },
+                    },
+                },
+            },
+        }),
+    )
     .use(serverTiming())
     .use(
         rateLimit({
             scoping: 'global',
-            generator: (req, server) =>
-                // get client ip via cloudflare header first
-                req.headers.get('CF-Connecting-IP') ??
-                // if not found, fallback to default generator
-                server?.requestIP(req)?.address ??
-                '',
+            // get client ip via cloudflare header first, fallback to the socket address
+            generator: (req, server) => getRequestIp(req, server),
             // max 20 requests per duration
             max: 20,
             // milliseconds
@@ -855,6 +2887,7 @@ export const wsServer = new Elysia({
         }),
     )
     .use(searchYoutubeiElysia)
+    .use(roomApi)
     .listen(process.env.PORT || 8000);
 
 // Setup graceful shutdown
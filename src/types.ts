@@ -1,10 +1,43 @@
 import { Video } from 'youtube-sr';
 import { ErrorCode } from '@/errors';
+import type { ClientMessage, ClientMessageType, QueueOperation } from '@/client-message.schema';
+import type { RoomPatch } from '@/utils/room-patch';
 
-export interface ClientInfo {
+export type DeviceType = 'player' | 'remote';
+
+export interface ClientProfile {
+    displayName?: string;
+    deviceType?: DeviceType;
+}
+
+export interface ClientInfo extends ClientProfile {
     id: string;
     roomId?: string;
     lastSeen?: number;
+    sessionToken?: string;
+    ip?: string;
+}
+
+// Optional protocol features a client can ask for in its `hello`
+export type ProtocolFeature = 'deltaUpdates' | 'timeSync' | 'binaryEncoding' | 'results';
+
+export interface MessageOutcome {
+    success: boolean;
+    // Version of the client's room after the operation, when it is in one
+    roomVersion?: number;
+    code?: ErrorCode;
+    message?: string;
+}
+
+export type PresenceStatus = 'online' | 'away';
+
+export interface PresenceEntry {
+    clientId: string;
+    displayName: string;
+    deviceType: DeviceType;
+    status: PresenceStatus;
+    joinedAt: number;
+    lastSeen: number;
 }
 
 export interface SearchResults {
@@ -29,7 +62,10 @@ export type YouTubeVideo = Omit<
     | 'music'
     | 'channel'
     | 'thumbnail'
+    | 'uploadedAt'
 > & {
+    // Null for playlist videos, youtube-sr does not know their upload date
+    uploadedAt: string | null;
     channel: {
         name: string;
         verified: boolean;
@@ -39,67 +75,274 @@ export type YouTubeVideo = Omit<
     };
 };
 
+// A video in a room queue or history, an entry id lets the same video be queued twice
+export interface QueueEntry {
+    entryId: string;
+    video: YouTubeVideo;
+    // Client id of the member who added the video, unknown for entries from older rooms
+    addedBy?: string;
+    addedAt: number;
+    note?: string;
+    // Moved to the top by a host, kept in front of the fair rotation
+    pinned?: boolean;
+    // Client ids of the members who upvoted the entry
+    upvotes?: string[];
+    // Picked by autoplay from the related videos instead of a member
+    autoAdded?: boolean;
+    // Key in semitones and tempo the song was last sung with
+    pitch?: number;
+    playbackRate?: number;
+    // Offsets in seconds to skip the intro and outro of the video
+    startAt?: number;
+    endAt?: number;
+}
+
+export type EntryTrim = Pick<QueueEntry, 'startAt' | 'endAt'>;
+
+export type QueueMode = 'fifo' | 'fair';
+
+export interface QueueEntryTarget {
+    entryId?: string;
+    // Kept for older clients, it targets the first entry of that video
+    videoId?: string;
+}
+
+export type RoomRole = 'host' | 'moderator' | 'singer' | 'guest';
+
+export type HostSuccession = 'oldest' | 'coHost' | 'vote';
+
+export interface RoomSettings {
+    defaultRole: RoomRole;
+    // Overrides of the minimum role required per message type
+    permissions: Partial<Record<ClientMessageType, RoomRole>>;
+    // How a new host is chosen when the current one leaves
+    hostSuccession: HostSuccession;
+    coHostId?: string;
+    queueMode: QueueMode;
+    // Percentage of connected members whose votes skip the playing video
+    skipVoteThreshold: number;
+    // Sort the queue by upvotes, ignored in fair rotation
+    autoReorderByVotes: boolean;
+    // Play a related video when the queue runs dry
+    autoplay: boolean;
+    // Longest video autoplay may pick in seconds, 0 for no limit
+    autoplayMaxDuration: number;
+    // Restore the key and tempo a song was last sung with when it plays again
+    rememberPlaybackAdjustments: boolean;
+}
+
+export interface HostVote {
+    // Voter client id -> candidate client id
+    votes: Record<string, string>;
+    endsAt: number;
+}
+
+export interface RoomBan {
+    clientId: string;
+    ip?: string;
+    reason?: string;
+    bannedAt: number;
+    bannedBy: string;
+}
+
+// Lets an integration act on the room over the REST API, only a hash of the secret is stored
+export interface ApiToken {
+    id: string;
+    name: string;
+    role: RoomRole;
+    createdBy: string;
+    createdAt: number;
+}
+
+export type WebhookEventType =
+    | 'roomCreated'
+    | 'roomClosed'
+    | 'songStarted'
+    | 'songFinished'
+    | 'memberJoined'
+    | 'memberLeft'
+    | 'queueChanged';
+
+export interface RoomWebhook {
+    id: string;
+    url: string;
+    // Events delivered to the url, every event when empty
+    events: WebhookEventType[];
+    // Signs the deliveries, only kept server side like ban addresses
+    secret?: string;
+    createdBy: string;
+    createdAt: number;
+}
+
+// Body of a webhook delivery
+export interface WebhookEvent {
+    id: string;
+    type: WebhookEventType;
+    roomId: string;
+    occurredAt: number;
+    data: Record<string, unknown>;
+}
+
+// One delivery attempt, kept in the delivery log of the room
+export interface WebhookDelivery {
+    jobId: string;
+    // Null for the webhooks of the server config
+    webhookId: string | null;
+    url: string;
+    eventId: string;
+    eventType: WebhookEventType;
+    attempt: number;
+    success: boolean;
+    // HTTP status of the response, null when no response arrived
+    status: number | null;
+    error?: string;
+    durationMs: number;
+    attemptedAt: number;
+}
+
+// A room write made by an accepted command, as kept in the event log of the room. A command
+// writing the room several times is logged once per write.
+export interface RoomEvent {
+    // Id of the entry in the Redis stream, increasing with time
+    id: string;
+    roomId: string;
+    // Client id of the member or API token that sent the command
+    actor: string;
+    type: ClientMessageType;
+    // The command without its message fields and secrets
+    payload: Record<string, unknown>;
+    // Room version after the write, writes that are not published keep the previous one
+    version: number;
+    occurredAt: number;
+    // What the write changed, replaying the patches in order rebuilds the room
+    patch: RoomPatch;
+}
+
+export type ModerationAction = 'kick' | 'ban' | 'unban' | 'mute' | 'unmute';
+
 export interface Room {
     id: string;
     password?: string;
     clients: string[];
-    videoQueue: YouTubeVideo[];
-    historyQueue: YouTubeVideo[];
+    videoQueue: QueueEntry[];
+    historyQueue: QueueEntry[];
     volume: number;
-    playingNow: YouTubeVideo | null;
+    // Key shift in semitones and tempo multiplier of the playing song
+    pitch: number;
+    playbackRate: number;
+    playingNow: QueueEntry | null;
     lastActivity: number;
+    // Current host of the room, handed over when the creator leaves
     creatorId: string;
     isPlaying: boolean;
+    // Playback position in seconds at playbackUpdatedAt, see getPlaybackPosition for the live one
     currentTime: number;
+    // Server time in milliseconds the position was recorded, or the payload was built at
+    playbackUpdatedAt: number;
+    roles: Record<string, RoomRole>;
+    settings: RoomSettings;
+    hostVote?: HostVote | null;
+    bans: RoomBan[];
+    mutedClients: string[];
+    apiTokens: ApiToken[];
+    webhooks: RoomWebhook[];
+    // Client ids of the members who voted to skip the playing video
+    skipVotes: string[];
+    // Connected player device whose reports advance the queue, null when none is connected
+    primaryPlayerId: string | null;
+    // Incremented with every published change, see the `roomPatch` message
+    version: number;
 }
 
-export interface MessageBase {
-    id: string;
-    timestamp: number;
-    requiresAck?: boolean;
-}
-
-export type ClientMessage = MessageBase &
-    (
-        | { type: 'ping' }
-        | { type: 'createRoom'; password?: string }
-        | { type: 'joinRoom'; roomId: string; password?: string }
-        | { type: 'reJoinRoom'; roomId: string; password?: string }
-        | { type: 'leaveRoom' }
-        | { type: 'closeRoom' }
-        | { type: 'sendMessage'; message: string }
-        | { type: 'addVideo'; video: YouTubeVideo }
-        | { type: 'removeVideoFromQueue'; videoId: string }
-        | { type: 'playNow'; video: YouTubeVideo }
-        | { type: 'nextVideo' }
-        | { type: 'setVolume'; volume: number }
-        | { type: 'replay' }
-        | { type: 'play' }
-        | { type: 'pause' }
-        | { type: 'seek'; time: number }
-        | { type: 'videoFinished' }
-        | { type: 'moveToTop'; videoId: string }
-        | { type: 'shuffleQueue' }
-        | { type: 'clearQueue' }
-        | { type: 'clearHistory' }
-        | { type: 'addVideoAndMoveToTop'; video: YouTubeVideo }
-        | { type: 'importPlaylist'; playlistUrlOrId: string }
-    );
+// Derived from the runtime schemas that validate incoming messages
+export type { ClientMessage, ClientMessageType, QueueOperation };
 
 export type ServerMessage =
-    | { type: 'pong' }
-    | { type: 'ack'; messageId: string }
-    | { type: 'roomJoined'; yourId: string; room: Omit<Room, 'clients'> }
+    | {
+          type: 'pong';
+          clientSendTime?: number;
+          serverReceiveTime?: number;
+          serverSendTime?: number;
+          // Server clock minus client clock in milliseconds, once an exchange completed
+          offset?: number;
+          roundTrip?: number;
+      }
+    | { type: 'session'; clientId: string; sessionToken: string }
+    // Answer to `hello`, `features` lists what is enabled for this connection
+    | {
+          type: 'welcome';
+          protocolVersion: number;
+          serverProtocolVersion: number;
+          minProtocolVersion: number;
+          features: ProtocolFeature[];
+          clientId: string;
+          sessionToken: string;
+          serverTime: number;
+      }
+    // Deprecated, only confirms receipt. Clients negotiating `results` receive `result` instead.
+    // Still sent with `pending` to a retry of a message that is being handled, the first
+    // attempt reports the outcome.
+    | { type: 'ack'; messageId: string; pending?: boolean }
+    // Outcome of the message `messageId` once it has been handled
+    | ({ type: 'result'; messageId: string } & MessageOutcome)
+    | {
+          type: 'roomJoined';
+          yourId: string;
+          room: Omit<Room, 'clients'>;
+          presence: PresenceEntry[];
+      }
     | { type: 'roomCreated'; roomId: string }
     | { type: 'roomUpdate'; room: Omit<Room, 'clients'> }
+    // Changes on top of `baseVersion`, clients on another version send `resyncRoom`
+    | {
+          type: 'roomPatch';
+          version: number;
+          baseVersion: number;
+          set: Record<string, unknown>;
+          unset: string[];
+      }
     | { type: 'roomNotFound' }
     | { type: 'leftRoom' }
     | { type: 'message'; sender: string; content: string }
-    | { type: 'error'; message: string }
-    | { type: 'errorWithCode'; code: ErrorCode; message?: string }
+    | { type: 'error'; message: string; messageId?: string }
+    | { type: 'errorWithCode'; code: ErrorCode; message?: string; messageId?: string }
     | { type: 'roomClosed'; reason: string }
-    | { type: 'replay' }
-    | { type: 'play' }
-    | { type: 'pause' }
+    | { type: 'replay'; currentTime: number; serverTime: number }
+    | { type: 'play'; currentTime: number; serverTime: number }
+    | { type: 'pause'; currentTime: number; serverTime: number }
     | { type: 'volumeChanged'; volume: number }
-    | { type: 'currentTimeChanged'; currentTime: number };
+    | { type: 'pitchChanged'; pitch: number }
+    | { type: 'playbackRateChanged'; playbackRate: number }
+    | { type: 'currentTimeChanged'; currentTime: number; serverTime: number }
+    | {
+          type: 'syncBeacon';
+          entryId: string;
+          currentTime: number;
+          isPlaying: boolean;
+          serverTime: number;
+          // Players seek when their position is further off than this many seconds
+          driftTolerance: number;
+      }
+    | { type: 'roleChanged'; clientId: string; role: RoomRole }
+    | {
+          type: 'hostChanged';
+          hostId: string;
+          previousHostId: string;
+          reason: 'transferred' | 'left' | 'elected';
+      }
+    | { type: 'primaryPlayerChanged'; clientId: string | null; previousClientId: string | null }
+    | { type: 'hostVoteStarted'; candidates: string[]; endsAt: number }
+    | { type: 'kicked'; roomId: string; reason?: string }
+    | { type: 'banned'; roomId: string; reason?: string }
+    | { type: 'muted'; muted: boolean }
+    | { type: 'clientModerated'; action: ModerationAction; clientId: string; by: string }
+    | { type: 'presenceUpdate'; upserted: PresenceEntry[]; removed: string[] }
+    | { type: 'singerQueue'; clientId: string; entries: QueueEntry[] }
+    // Sent to the creator only, the secret cannot be read again
+    | { type: 'apiTokenCreated'; token: string; apiToken: ApiToken }
+    // Sent to the creator only, like API tokens the secret cannot be read again
+    | { type: 'webhookAdded'; webhook: RoomWebhook; secret: string }
+    | { type: 'webhookDeliveries'; deliveries: WebhookDelivery[] }
+    | { type: 'roomEvents'; events: RoomEvent[] }
+    | { type: 'roomStateRebuilt'; version: number; room: Record<string, unknown> }
+    | { type: 'skipVoteUpdate'; votes: number; required: number };
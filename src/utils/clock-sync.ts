@@ -0,0 +1,65 @@
+/**
+ * One ping/pong exchange as seen by the server. The client send time comes from the
+ * client clock, the other two from the server clock, all in milliseconds.
+ */
+export interface ClockExchange {
+    clientSendTime: number;
+    serverReceiveTime: number;
+    serverSendTime: number;
+}
+
+export interface ClockSample {
+    // Server clock minus client clock in milliseconds
+    offset: number;
+    // Network round trip in milliseconds, without the time spent on the server
+    roundTrip: number;
+}
+
+// Number of recent samples the offset estimate is picked from
+export const CLOCK_SAMPLE_WINDOW = 8;
+
+/**
+ * Completes an exchange with the time the client received the pong, using the NTP formulas.
+ * @param exchange The exchange recorded when the pong was sent.
+ * @param clientReceiveTime Client time the pong arrived at, reported with the next ping.
+ * @returns The sample, or null when the reported times are inconsistent.
+ */
+export function computeClockSample(
+    exchange: ClockExchange,
+    clientReceiveTime: number,
+): ClockSample | null {
+    const { clientSendTime, serverReceiveTime, serverSendTime } = exchange;
+    const roundTrip = clientReceiveTime - clientSendTime - (serverSendTime - serverReceiveTime);
+
+    if (!Number.isFinite(roundTrip) || roundTrip < 0) {
+        return null;
+    }
+
+    const offset = (serverReceiveTime - clientSendTime + (serverSendTime - clientReceiveTime)) / 2;
+    return { offset, roundTrip };
+}
+
+/**
+ * Adds a sample to the rolling window, dropping the oldest ones beyond its size.
+ * @param samples The rolling window, updated in place.
+ * @param sample The newest sample.
+ */
+export function addClockSample(samples: ClockSample[], sample: ClockSample): void {
+    samples.push(sample);
+    if (samples.length > CLOCK_SAMPLE_WINDOW) {
+        samples.splice(0, samples.length - CLOCK_SAMPLE_WINDOW);
+    }
+}
+
+/**
+ * Picks the current estimate from the rolling window. Like the NTP clock filter it trusts
+ * the sample with the shortest round trip, which suffered the least network delay.
+ * @returns The estimate, or null before the first completed exchange.
+ */
+export function estimateClock(samples: ClockSample[]): ClockSample | null {
+    if (samples.length === 0) {
+        return null;
+    }
+
+    return samples.reduce((best, current) => (current.roundTrip < best.roundTrip ? current : best));
+}
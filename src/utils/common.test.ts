@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test';
+import { Video } from 'youtube-sr';
+
+import type { Room, YouTubeVideo } from '@/types';
+import { cleanUpRoomField, cleanUpVideoField } from '@/utils/common';
+import { createQueueEntry } from '@/utils/queue';
+import { diffRoomState } from '@/utils/room-patch';
+
+describe('cleanUpVideoField', () => {
+    test('the duration is in seconds', () => {
+        const video = new Video({ id: 'dQw4w9WgXcQ', duration: 213_000, duration_raw: '3:33' });
+
+        expect(cleanUpVideoField(video)).toMatchObject({
+            duration: 213,
+            duration_formatted: '3:33',
+        });
+    });
+});
+
+describe('cleanUpRoomField', () => {
+    test('a playing room cleaned up at the same time twice has no changes', () => {
+        const video = { id: 'video', title: 'Video', duration: 300 } as YouTubeVideo;
+        const room = {
+            id: '123456',
+            clients: ['host'],
+            playingNow: createQueueEntry(video, 'host'),
+            isPlaying: true,
+            currentTime: 0,
+            playbackUpdatedAt: Date.now() - 10_000,
+            playbackRate: 1,
+        } as Room;
+        const now = Date.now();
+
+        const { set, unset } = diffRoomState(
+            cleanUpRoomField(structuredClone(room), now),
+            cleanUpRoomField(room, now),
+        );
+        expect(set).toEqual({});
+        expect(unset).toEqual([]);
+    });
+});
@@ -1,5 +1,7 @@
+import type { Server } from 'bun';
 import { Video } from 'youtube-sr';
 import { Room, YouTubeVideo } from '@/types';
+import { getPlaybackPosition } from '@/utils/playback';
 
 /**
  * Generates a random number with a specified number of digits.
@@ -90,7 +92,8 @@ export function cleanUpVideoField(video: Video): YouTubeVideo {
 
     return {
         id: videoJSON.id,
-        duration: videoJSON.duration || video.duration || 0,
+        // youtube-sr counts in milliseconds, the rest of the application in seconds
+        duration: Math.round((videoJSON.duration || video.duration || 0) / 1000),
         duration_formatted: videoJSON.duration_formatted || '0:00',
         title: videoJSON.title,
         type: videoJSON.type,
@@ -107,9 +110,34 @@ export function cleanUpVideoField(video: Video): YouTubeVideo {
     };
 }
 
-export function cleanUpRoomField(room: Room): Omit<Room, 'clients'> {
+/**
+ * Resolves the address of the client behind a request, preferring the Cloudflare
+ * `CF-Connecting-IP` header over the socket address.
+ * @param request The incoming request, including websocket upgrades.
+ * @param server The Bun server that accepted the request.
+ * @returns The client IP address, or an empty string when it is unknown.
+ */
+export function getRequestIp(request: Request, server?: Server | null): string {
+    return request.headers.get('CF-Connecting-IP') ?? server?.requestIP(request)?.address ?? '';
+}
+
+/**
+ * Strips a room of what clients must not see and brings its playback position up to date.
+ * @param room The room to send.
+ * @param now Server time in milliseconds of the position, rooms compared with each other
+ * must share it.
+ */
+export function cleanUpRoomField(room: Room, now: number = Date.now()): Omit<Room, 'clients'> {
     const { clients, ...cleanedRoom } = room;
-    return cleanedRoom;
+    return {
+        ...cleanedRoom,
+        // Late joiners get the live position instead of the last recorded one
+        currentTime: getPlaybackPosition(room, now),
+        playbackUpdatedAt: now,
+        // Banned addresses are only needed server side
+        bans: room.bans?.map(({ ip, ...ban }) => ban) ?? [],
+        webhooks: room.webhooks?.map(({ secret, ...webhook }) => webhook) ?? [],
+    };
 }
 
 /**
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { Room, YouTubeVideo } from '@/types';
+import { getPlaybackPosition, setPlayback } from '@/utils/playback';
+import { createQueueEntry } from '@/utils/queue';
+
+const START = 1_000_000;
+
+function createPlayingRoom(playbackRate: number): Room {
+    const video = { id: 'video', title: 'Video', duration: 300 } as YouTubeVideo;
+    return {
+        playingNow: createQueueEntry(video, 'host'),
+        isPlaying: true,
+        currentTime: 0,
+        playbackUpdatedAt: START,
+        playbackRate,
+    } as Room;
+}
+
+describe('getPlaybackPosition', () => {
+    test('advances with real time at the normal tempo', () => {
+        expect(getPlaybackPosition(createPlayingRoom(1), START + 10_000)).toBe(10);
+    });
+
+    test('advances at the tempo of the room', () => {
+        expect(getPlaybackPosition(createPlayingRoom(0.5), START + 10_000)).toBe(5);
+        expect(getPlaybackPosition(createPlayingRoom(1.5), START + 10_000)).toBe(15);
+    });
+
+    test('does not run past the end of the video', () => {
+        expect(getPlaybackPosition(createPlayingRoom(2), START + 200_000)).toBe(300);
+    });
+
+    test('keeps the position while paused', () => {
+        const room = createPlayingRoom(0.5);
+        setPlayback(room, false, 42, START);
+        expect(getPlaybackPosition(room, START + 10_000)).toBe(42);
+    });
+
+    test('a tempo change applies from the point it was made', () => {
+        const room = createPlayingRoom(1);
+        // Anchored at the old tempo before the new one is set, as setPlaybackRate does
+        setPlayback(room, true, getPlaybackPosition(room, START + 10_000), START + 10_000);
+        room.playbackRate = 0.5;
+
+        expect(room.currentTime).toBe(10);
+        expect(getPlaybackPosition(room, START + 20_000)).toBe(15);
+    });
+});
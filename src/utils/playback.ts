@@ -0,0 +1,50 @@
+import type { Room } from '@/types';
+
+export const DEFAULT_PITCH = 0;
+export const DEFAULT_PLAYBACK_RATE = 1;
+
+// The fields of a room its playback is derived from
+export type PlaybackState = Pick<
+    Room,
+    'playingNow' | 'isPlaying' | 'currentTime' | 'playbackUpdatedAt' | 'playbackRate'
+>;
+
+/**
+ * Derives the live playback position in seconds from the last recorded position and the
+ * time it was recorded, at the tempo of the room. The position never runs past the end of
+ * the playing video.
+ * @param room The room to read.
+ * @param now Server time in milliseconds to derive the position for.
+ */
+export function getPlaybackPosition(room: PlaybackState, now: number = Date.now()): number {
+    if (!room.isPlaying || !room.playingNow) {
+        return room.currentTime;
+    }
+
+    const elapsed =
+        (Math.max(0, now - (room.playbackUpdatedAt ?? now)) / 1000) *
+        (room.playbackRate ?? DEFAULT_PLAYBACK_RATE);
+    const position = room.currentTime + elapsed;
+    const duration = room.playingNow.video.duration;
+
+    return duration > 0 ? Math.min(position, duration) : position;
+}
+
+/**
+ * Records a playback change. The position defaults to the live position, so pausing keeps
+ * the point the song reached and resuming continues from where it was paused.
+ * @param room The room to update.
+ * @param isPlaying Whether the video plays after the change.
+ * @param currentTime Position in seconds to continue from.
+ * @param now Server time in milliseconds of the change.
+ */
+export function setPlayback(
+    room: PlaybackState,
+    isPlaying: boolean,
+    currentTime: number = getPlaybackPosition(room),
+    now: number = Date.now(),
+): void {
+    room.isPlaying = isPlaying;
+    room.currentTime = currentTime;
+    room.playbackUpdatedAt = now;
+}
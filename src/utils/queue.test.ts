@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test';
+
+import { DEFAULT_ROOM_SETTINGS } from '@/permissions';
+import type { QueueEntry, Room, YouTubeVideo } from '@/types';
+import { buildFairQueue, createQueueEntry, playEntryNow, sortQueueByVotes } from '@/utils/queue';
+
+const SONG = { id: 'song', title: 'Song', duration: 300 } as YouTubeVideo;
+const OTHER_SONG = { id: 'other', title: 'Other song', duration: 200 } as YouTubeVideo;
+
+function createRoom(historyQueue: QueueEntry[]): Room {
+    return {
+        videoQueue: [],
+        historyQueue,
+        playingNow: createQueueEntry(OTHER_SONG, 'host'),
+        pitch: 0,
+        playbackRate: 1,
+        isPlaying: true,
+        currentTime: 0,
+        playbackUpdatedAt: Date.now(),
+        settings: { ...DEFAULT_ROOM_SETTINGS, rememberPlaybackAdjustments: true },
+    } as unknown as Room;
+}
+
+describe('playEntryNow', () => {
+    test('a song sung before comes back with its key and tempo', () => {
+        const sung = { ...createQueueEntry(SONG, 'host'), pitch: -2, playbackRate: 0.9 };
+        const room = createRoom([sung]);
+
+        playEntryNow(room, createQueueEntry(SONG, 'guest'));
+
+        expect(room.playingNow?.video.id).toBe('song');
+        expect(room.pitch).toBe(-2);
+        expect(room.playbackRate).toBe(0.9);
+        expect(room.historyQueue.map(({ video }) => video.id)).toEqual(['other']);
+    });
+
+    test('a trimmed song played again keeps its trim', () => {
+        const sung = { ...createQueueEntry(SONG, 'host'), startAt: 15, endAt: 240 };
+        const room = createRoom([sung]);
+
+        playEntryNow(room, createQueueEntry(SONG, 'guest'));
+
+        expect(room.playingNow?.startAt).toBe(15);
+        expect(room.playingNow?.endAt).toBe(240);
+        expect(room.currentTime).toBe(15);
+    });
+
+    test('a trim set on the new entry wins over the one sung before', () => {
+        const sung = { ...createQueueEntry(SONG, 'host'), startAt: 15, endAt: 240 };
+        const room = createRoom([sung]);
+
+        playEntryNow(room, createQueueEntry(SONG, 'guest', undefined, { startAt: 30 }));
+
+        expect(room.playingNow?.startAt).toBe(30);
+        expect(room.playingNow?.endAt).toBeUndefined();
+        expect(room.currentTime).toBe(30);
+    });
+});
+
+describe('buildFairQueue', () => {
+    const entry = (singerId: string, index: number) =>
+        createQueueEntry({ ...SONG, id: `${singerId}${index}` }, singerId);
+    const ids = (queue: QueueEntry[]) => queue.map(({ video }) => video.id);
+
+    test('members take turns, the one singing now last in each turn', () => {
+        const queue = [entry('a', 1), entry('a', 2), entry('a', 3), entry('b', 1), entry('c', 1)];
+
+        expect(ids(buildFairQueue(queue, 'c'))).toEqual(['a1', 'b1', 'c1', 'a2', 'a3']);
+        expect(ids(buildFairQueue(queue, 'a'))).toEqual(['b1', 'c1', 'a1', 'a2', 'a3']);
+    });
+
+    test('pinned entries stay in front', () => {
+        const pinned = { ...entry('b', 2), pinned: true };
+        const queue = [entry('a', 1), entry('a', 2), entry('b', 1), pinned];
+
+        expect(ids(buildFairQueue(queue))).toEqual(['b2', 'a1', 'b1', 'a2']);
+    });
+
+    test('the queue it is given is left as it is', () => {
+        const queue = [entry('a', 1), entry('a', 2), entry('b', 1)];
+
+        buildFairQueue(queue);
+        expect(ids(queue)).toEqual(['a1', 'a2', 'b1']);
+    });
+});
+
+describe('sortQueueByVotes', () => {
+    test('most voted first, ties in queue order and pinned entries in front', () => {
+        const entry = (id: string, upvotes: string[], pinned = false) => ({
+            ...createQueueEntry({ ...SONG, id }, 'host'),
+            upvotes,
+            pinned,
+        });
+        const queue = [entry('a', []), entry('b', ['x']), entry('c', []), entry('d', [], true)];
+
+        expect(sortQueueByVotes(queue).map(({ video }) => video.id)).toEqual(['d', 'b', 'a', 'c']);
+    });
+});
@@ -0,0 +1,234 @@
+import { MAX_NOTE_LENGTH } from '@/client-message.schema';
+import { ErrorCode, RoomError } from '@/errors';
+import { isNullish } from '@/utils/common';
+import { DEFAULT_PITCH, DEFAULT_PLAYBACK_RATE, setPlayback } from '@/utils/playback';
+import type { EntryTrim, QueueEntry, QueueEntryTarget, Room, YouTubeVideo } from '@/types';
+
+/**
+ * Validates the start and end offsets of an entry, keeping only the ones that were set.
+ * @param trim Offsets in seconds.
+ * @param duration Length of the video in seconds, 0 when unknown.
+ * @throws {RoomError} INVALID_MESSAGE when an offset is negative or past the end of the video,
+ * or the start is not before the end.
+ */
+export function validateEntryTrim({ startAt, endAt }: EntryTrim, duration: number): EntryTrim {
+    const isValidOffset = (offset?: number) =>
+        isNullish(offset) ||
+        (typeof offset === 'number' && offset >= 0 && (duration <= 0 || offset <= duration));
+
+    if (!isValidOffset(startAt) || !isValidOffset(endAt)) {
+        throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Trim offsets must be within the video');
+    }
+    if (!isNullish(startAt) && !isNullish(endAt) && startAt >= endAt) {
+        throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Trim start must be before its end');
+    }
+
+    return { startAt: startAt ?? undefined, endAt: endAt ?? undefined };
+}
+
+/**
+ * Wraps a video in a new queue entry.
+ * @param video The video to queue.
+ * @param addedBy Client id of the member adding the video, undefined for the server.
+ * @param note Optional note shown with the entry, e.g. "duet with Linh".
+ * @param trim Optional offsets to skip the intro and outro.
+ * @throws {RoomError} INVALID_MESSAGE when the note is not a short string or the trim is
+ * invalid.
+ */
+export function createQueueEntry(
+    video: YouTubeVideo,
+    addedBy: string | undefined,
+    note?: string,
+    trim: EntryTrim = {},
+): QueueEntry {
+    if (note !== undefined && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+        throw new RoomError(
+            ErrorCode.INVALID_MESSAGE,
+            `Note must be at most ${MAX_NOTE_LENGTH} characters`,
+        );
+    }
+
+    return {
+        entryId: crypto.randomUUID(),
+        video,
+        addedBy,
+        addedAt: Date.now(),
+        note: note?.trim() || undefined,
+        ...validateEntryTrim(trim, video.duration),
+    };
+}
+
+// Moves the playing entry to the top of history, keeping a single history entry per video
+export function moveToHistory(room: Room, entry: QueueEntry): void {
+    room.historyQueue = [entry, ...room.historyQueue.filter((e) => e.video.id !== entry.video.id)];
+}
+
+/**
+ * Starts playing an entry from its trimmed start. When the room remembers adjustments, the
+ * key and tempo the song was last sung with come back, even for a re-added entry.
+ * @param previous The history entry of the same video, looked up in the history by default.
+ */
+export function startEntry(
+    room: Room,
+    entry: QueueEntry,
+    previous = room.historyQueue.find((e) => e.video.id === entry.video.id),
+): void {
+    const remember = room.settings.rememberPlaybackAdjustments;
+    if (remember) {
+        entry.pitch ??= previous?.pitch;
+        entry.playbackRate ??= previous?.playbackRate;
+    }
+
+    // A song sung before keeps its trim unless the new entry sets its own
+    if (isNullish(entry.startAt) && isNullish(entry.endAt)) {
+        entry.startAt = previous?.startAt;
+        entry.endAt = previous?.endAt;
+    }
+
+    room.playingNow = entry;
+    room.pitch = (remember && entry.pitch) || DEFAULT_PITCH;
+    room.playbackRate = (remember && entry.playbackRate) || DEFAULT_PLAYBACK_RATE;
+    setPlayback(room, true, entry.startAt ?? 0);
+}
+
+/**
+ * Plays an entry right away, ahead of the queue. The video leaves the queue and history and
+ * the playing entry moves to history.
+ */
+export function playEntryNow(room: Room, entry: QueueEntry): void {
+    // Taken before the video leaves history, so it keeps what it was last sung with
+    const previous = room.historyQueue.find((e) => e.video.id === entry.video.id);
+
+    // Remove the video that would be played now from the queue and history
+    room.historyQueue = room.historyQueue.filter((e) => e.video.id !== entry.video.id);
+    room.videoQueue = room.videoQueue.filter((e) => e.video.id !== entry.video.id);
+
+    // Move the currently playing video to history
+    if (room.playingNow) {
+        moveToHistory(room, room.playingNow);
+    }
+
+    startEntry(room, entry, previous);
+}
+
+/**
+ * Converts a queue item stored before entries existed (a bare video) into an entry.
+ * Items that already are entries are returned as is.
+ */
+export function toQueueEntry(item: QueueEntry | YouTubeVideo): QueueEntry {
+    if ('entryId' in item && item.video) {
+        return item;
+    }
+
+    const { addedBy, pinned, ...video } = item as YouTubeVideo & {
+        addedBy?: string;
+        pinned?: boolean;
+    };
+    return { entryId: crypto.randomUUID(), video, addedBy, addedAt: Date.now(), pinned };
+}
+
+/**
+ * Migrates the queue, history and playing entry of a room stored before entries existed.
+ */
+export function migrateQueueEntries(room: Room): void {
+    room.videoQueue = (room.videoQueue ?? []).map(toQueueEntry);
+    room.historyQueue = (room.historyQueue ?? []).map(toQueueEntry);
+    room.playingNow = room.playingNow ? toQueueEntry(room.playingNow) : null;
+}
+
+/**
+ * Finds a queue entry by entry id, or by video id for clients that predate entry ids.
+ */
+export function findQueueEntry(
+    queue: QueueEntry[],
+    { entryId, videoId }: QueueEntryTarget,
+): QueueEntry | undefined {
+    return entryId
+        ? queue.find((entry) => entry.entryId === entryId)
+        : queue.find((entry) => entry.video.id === videoId);
+}
+
+/**
+ * Moves an entry to a new position. The index is clamped to the queue bounds so that a
+ * move computed on a slightly stale queue still lands deterministically.
+ * @param queue The queue, it is not modified.
+ * @param entryId The entry to move, it must be in the queue.
+ * @param toIndex The index the entry has after the move.
+ * @returns The reordered queue.
+ * @example
+ * moveQueueEntry([a, b, c], 'a', 5); // [b, c, a]
+ */
+export function moveQueueEntry(
+    queue: QueueEntry[],
+    entryId: string,
+    toIndex: number,
+): QueueEntry[] {
+    const entry = queue.find((e) => e.entryId === entryId);
+    if (!entry) {
+        return queue;
+    }
+
+    const rest = queue.filter((e) => e.entryId !== entryId);
+    const index = Math.min(rest.length, Math.max(0, Math.trunc(toIndex)));
+    return [...rest.slice(0, index), entry, ...rest.slice(index)];
+}
+
+/**
+ * Orders a queue round-robin across the members who added its entries.
+ *
+ * Pinned entries (moved to the top by a host) stay in front in their current order.
+ * Members take turns in the order their first entry appears in the queue, except the
+ * member who is singing right now, who goes last. Each member's own entries keep
+ * their relative order.
+ *
+ * @param queue The queue to order, it is not modified.
+ * @param currentSingerId The member who added the entry that is playing now.
+ * @returns The queue in fair rotation order.
+ * @example
+ * buildFairQueue([a1, a2, a3, b1, c1], 'c');
+ * // [a1, b1, c1, a2, a3]
+ */
+export function buildFairQueue(queue: QueueEntry[], currentSingerId?: string): QueueEntry[] {
+    const ordered = queue.filter((entry) => entry.pinned);
+    const singerQueues = new Map<string, QueueEntry[]>();
+
+    for (const entry of queue) {
+        if (entry.pinned) continue;
+
+        const singerId = entry.addedBy ?? '';
+        singerQueues.set(singerId, [...(singerQueues.get(singerId) ?? []), entry]);
+    }
+
+    const singers = [...singerQueues.keys()];
+    if (currentSingerId !== undefined && singerQueues.has(currentSingerId)) {
+        singers.splice(singers.indexOf(currentSingerId), 1);
+        singers.push(currentSingerId);
+    }
+
+    for (let turn = 0; ordered.length < queue.length; turn++) {
+        for (const singerId of singers) {
+            const entry = singerQueues.get(singerId)![turn];
+            if (entry) {
+                ordered.push(entry);
+            }
+        }
+    }
+
+    return ordered;
+}
+
+/**
+ * Orders a queue by upvotes, most voted first. Pinned entries stay in front and entries
+ * with the same number of votes keep their relative order.
+ */
+export function sortQueueByVotes(queue: QueueEntry[]): QueueEntry[] {
+    const votesOf = (entry: QueueEntry) => (entry.pinned ? Infinity : entry.upvotes?.length ?? 0);
+    return [...queue].sort((a, b) => votesOf(b) - votesOf(a));
+}
+
+/**
+ * Returns the entries a single member has in the queue, in play order.
+ */
+export function getSingerQueue(queue: QueueEntry[], singerId: string): QueueEntry[] {
+    return queue.filter((entry) => entry.addedBy === singerId);
+}
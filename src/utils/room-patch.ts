@@ -0,0 +1,82 @@
+/**
+ * Changes between two room states. Paths are dot separated keys, nested objects are compared
+ * key by key while arrays and other values are replaced as a whole.
+ */
+export interface RoomPatch {
+    set: Record<string, unknown>;
+    unset: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Computes the changes that turn `previous` into `next`.
+ * @param previous The state clients already have.
+ * @param next The new state.
+ * @example
+ * diffRoomState({ volume: 50, settings: { autoplay: false } }, { volume: 80, settings: { autoplay: false } });
+ * // { set: { volume: 80 }, unset: [] }
+ */
+export function diffRoomState(
+    previous: Record<string, unknown>,
+    next: Record<string, unknown>,
+    patch: RoomPatch = { set: {}, unset: [] },
+    prefix = '',
+): RoomPatch {
+    for (const key of Object.keys(previous)) {
+        if (!(key in next)) {
+            patch.unset.push(`${prefix}${key}`);
+        }
+    }
+
+    for (const [key, value] of Object.entries(next)) {
+        const previousValue = previous[key];
+        if (isPlainObject(value) && isPlainObject(previousValue)) {
+            diffRoomState(previousValue, value, patch, `${prefix}${key}.`);
+        } else if (JSON.stringify(value) !== JSON.stringify(previousValue)) {
+            patch.set[`${prefix}${key}`] = value;
+        }
+    }
+
+    return patch;
+}
+
+/**
+ * Applies a patch from `diffRoomState` to a state, in place.
+ * @param state The state the patch was computed against.
+ * @param patch The changes to apply.
+ * @example
+ * applyRoomPatch({ volume: 50 }, { set: { volume: 80, 'settings.autoplay': true }, unset: [] });
+ * // { volume: 80, settings: { autoplay: true } }
+ */
+export function applyRoomPatch(
+    state: Record<string, unknown>,
+    patch: RoomPatch,
+): Record<string, unknown> {
+    const resolveParent = (path: string) => {
+        const keys = path.split('.');
+        const last = keys.pop()!;
+        let parent = state;
+        for (const key of keys) {
+            if (!isPlainObject(parent[key])) {
+                parent[key] = {};
+            }
+            parent = parent[key] as Record<string, unknown>;
+        }
+        return { parent, last };
+    };
+
+    for (const path of patch.unset) {
+        const { parent, last } = resolveParent(path);
+        delete parent[last];
+    }
+
+    for (const [path, value] of Object.entries(patch.set)) {
+        const { parent, last } = resolveParent(path);
+        parent[last] = value;
+    }
+
+    return state;
+}
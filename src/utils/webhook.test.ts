@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import {
+    WebhookAddressError,
+    isPrivateAddress,
+    postWebhook,
+    resolvePublicAddresses,
+    signWebhookPayload,
+    verifyWebhookSignature,
+    type HostResolver,
+} from '@/utils/webhook';
+
+const REQUEST = { headers: { 'Content-Type': 'application/json' }, body: '{}', timeout: 2000 };
+
+describe('webhook signatures', () => {
+    test('a signed body verifies with the same secret only', () => {
+        const header = signWebhookPayload('secret', 1700000000, '{"a":1}');
+
+        expect(verifyWebhookSignature('secret', header, '{"a":1}', 1700000000)).toBe(true);
+        expect(verifyWebhookSignature('other', header, '{"a":1}', 1700000000)).toBe(false);
+        expect(verifyWebhookSignature('secret', header, '{"a":2}', 1700000000)).toBe(false);
+    });
+
+    test('an old signature is refused', () => {
+        const header = signWebhookPayload('secret', 1700000000, '{}');
+        expect(verifyWebhookSignature('secret', header, '{}', 1700000000 + 301)).toBe(false);
+    });
+});
+
+describe('webhook addresses', () => {
+    test('private addresses, including embedded ones, are recognized', () => {
+        expect(isPrivateAddress('127.0.0.1')).toBe(true);
+        expect(isPrivateAddress('169.254.169.254')).toBe(true);
+        expect(isPrivateAddress('[::ffff:7f00:1]')).toBe(true);
+        expect(isPrivateAddress('93.184.216.34')).toBe(false);
+    });
+});
+
+describe('postWebhook', () => {
+    let server: http.Server;
+    let received = 0;
+    let port: number;
+
+    beforeAll(async () => {
+        server = http.createServer((request, response) => {
+            received++;
+            request.resume();
+            response.writeHead(204).end();
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    test('a host answering the check with a public address and the connection with a loopback one is refused', async () => {
+        const answers = [['93.184.216.34'], ['127.0.0.1']];
+        const resolve: HostResolver = async () => answers.shift() ?? [];
+        const url = `http://receiver.example:${port}/hook`;
+        const before = received;
+
+        // The first lookup passes the check, the connection then looks the host up again
+        expect(await resolvePublicAddresses('receiver.example', resolve)).toEqual([
+            '93.184.216.34',
+        ]);
+        await expect(postWebhook(url, { ...REQUEST, resolve })).rejects.toBeInstanceOf(
+            WebhookAddressError,
+        );
+
+        expect(answers).toHaveLength(0);
+        expect(received).toBe(before);
+    });
+
+    test('private ip literals are refused without connecting', async () => {
+        const before = received;
+        await expect(postWebhook(`http://127.0.0.1:${port}/hook`, REQUEST)).rejects.toBeInstanceOf(
+            WebhookAddressError,
+        );
+        expect(received).toBe(before);
+    });
+
+    test('delivers when private addresses are allowed', async () => {
+        const status = await postWebhook(`http://127.0.0.1:${port}/hook`, {
+            ...REQUEST,
+            allowPrivate: true,
+        });
+        expect(status).toBe(204);
+    });
+});
@@ -0,0 +1,300 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import http from 'node:http';
+import https from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+
+import { ErrorCode, RoomError } from '@/errors';
+import type { WebhookEventType } from '@/types';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+    'roomCreated',
+    'roomClosed',
+    'songStarted',
+    'songFinished',
+    'memberJoined',
+    'memberLeft',
+    'queueChanged',
+];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Vkara-Signature';
+// Receivers should reject signatures older than this many seconds to stop replays
+export const WEBHOOK_SIGNATURE_TOLERANCE = 300;
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Signs a webhook body. The timestamp is part of the signed content, so a captured delivery
+ * cannot be replayed later with a fresh timestamp.
+ * @param secret The secret shared with the receiver.
+ * @param timestamp Unix time in seconds the delivery is sent at.
+ * @param body The exact body sent.
+ * @returns The value of the signature header.
+ * @example
+ * signWebhookPayload('secret', 1700000000, '{}');
+ * // 't=1700000000,v1=5d5d...'
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+    return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`;
+}
+
+/**
+ * Checks a signature header produced by `signWebhookPayload`.
+ * @param secret The secret shared with the sender.
+ * @param header The value of the signature header.
+ * @param body The raw body as received.
+ * @param now Unix time in seconds to check the timestamp against.
+ */
+export function verifyWebhookSignature(
+    secret: string,
+    header: string,
+    body: string,
+    now: number = Math.floor(Date.now() / 1000),
+): boolean {
+    const timestamp = Number(header.match(/(?:^|,)t=(\d+)/)?.[1]);
+    const signature = header.match(/(?:^|,)v1=([0-9a-f]+)/)?.[1];
+    if (!timestamp || !signature || Math.abs(now - timestamp) > WEBHOOK_SIGNATURE_TOLERANCE) {
+        return false;
+    }
+
+    const expected = new TextEncoder().encode(computeSignature(secret, timestamp, body));
+    const received = new TextEncoder().encode(signature);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// Loopback, private, link-local, shared, multicast and reserved ranges, as [first octets, prefix]
+const PRIVATE_IPV4_RANGES: [number[], number][] = [
+    [[0], 8],
+    [[10], 8],
+    [[100, 64], 10],
+    [[127], 8],
+    [[169, 254], 16],
+    [[172, 16], 12],
+    [[192, 0, 0], 24],
+    [[192, 168], 16],
+    [[198, 18], 15],
+    [[224], 3],
+];
+
+function parseIPv4(address: string): number[] | null {
+    const octets = address.split('.').map(Number);
+    return octets.length === 4 && octets.every((o) => Number.isInteger(o) && o >= 0 && o <= 255)
+        ? octets
+        : null;
+}
+
+// The 8 groups of an IPv6 address, with an embedded dotted IPv4 tail expanded
+function parseIPv6(address: string): number[] | null {
+    let value = address.replace(/^\[|\]$/g, '').split('%')[0];
+    const ipv4Tail = value.match(/(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+    if (ipv4Tail) {
+        const octets = parseIPv4(ipv4Tail);
+        if (!octets) {
+            return null;
+        }
+        value =
+            value.slice(0, -ipv4Tail.length) +
+            `${((octets[0] << 8) | octets[1]).toString(16)}:${(
+                (octets[2] << 8) |
+                octets[3]
+            ).toString(16)}`;
+    }
+
+    const halves = value.split('::');
+    if (halves.length > 2) {
+        return null;
+    }
+    const head = halves[0] ? halves[0].split(':') : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+    const missing = 8 - head.length - tail.length;
+    if (halves.length === 1 ? missing !== 0 : missing < 1) {
+        return null;
+    }
+
+    const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail].map(
+        (group) => (/^[0-9a-f]{1,4}$/i.test(group) ? parseInt(group, 16) : NaN),
+    );
+    return groups.every((group) => !Number.isNaN(group)) ? groups : null;
+}
+
+function isPrivateIPv4(octets: number[]): boolean {
+    const value = octets.reduce((sum, octet) => sum * 256 + octet, 0);
+    return PRIVATE_IPV4_RANGES.some(([first, prefix]) => {
+        const start = [...first, 0, 0, 0].slice(0, 4).reduce((sum, octet) => sum * 256 + octet, 0);
+        return Math.floor(value / 2 ** (32 - prefix)) === Math.floor(start / 2 ** (32 - prefix));
+    });
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+    const embeddedIPv4 = (high: number, low: number) => [
+        high >> 8,
+        high & 0xff,
+        low >> 8,
+        low & 0xff,
+    ];
+    const leadingZeros = groups.slice(0, 5).every((group) => group === 0);
+
+    // Unspecified, loopback and the deprecated IPv4-compatible range
+    if (leadingZeros && groups[5] === 0) {
+        return groups[6] === 0 || isPrivateIPv4(embeddedIPv4(groups[6], groups[7]));
+    }
+    // IPv4-mapped addresses reach the IPv4 host they embed
+    if (leadingZeros && groups[5] === 0xffff) {
+        return isPrivateIPv4(embeddedIPv4(groups[6], groups[7]));
+    }
+    // NAT64 and 6to4 translate to an embedded IPv4 host as well
+    if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+        return isPrivateIPv4(embeddedIPv4(groups[6], groups[7]));
+    }
+    if (groups[0] === 0x2002) {
+        return isPrivateIPv4(embeddedIPv4(groups[1], groups[2]));
+    }
+
+    // Unique local, link-local and multicast
+    return (
+        (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80 || groups[0] >= 0xff00
+    );
+}
+
+/**
+ * Whether an IP address is one rooms must not make the server call: loopback, private,
+ * link-local, multicast or reserved, including IPv6 forms that embed such an IPv4 address.
+ * Anything that does not parse as an IP address counts as private.
+ * @example
+ * isPrivateAddress('[::ffff:7f00:1]'); // true, 127.0.0.1
+ */
+export function isPrivateAddress(address: string): boolean {
+    const octets = parseIPv4(address);
+    if (octets) {
+        return isPrivateIPv4(octets);
+    }
+
+    const groups = parseIPv6(address);
+    return !groups || isPrivateIPv6(groups);
+}
+
+const isIPLiteral = (hostname: string) => !!parseIPv4(hostname) || hostname.startsWith('[');
+
+/**
+ * Checks a webhook url registered by a room. Private addresses are refused unless allowed,
+ * e.g. to test against a local receiver, since rooms are created by anyone. Host names are
+ * only resolved when delivering, see resolvePublicAddresses.
+ * @throws {RoomError} INVALID_MESSAGE when the url is not an http(s) url it may call.
+ */
+export function validateWebhookUrl(url: string, allowPrivate = false): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Webhook url is not a valid url');
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Webhook url must use http or https');
+    }
+
+    const hostname = parsed.hostname.toLowerCase();
+    const isPrivateHost =
+        hostname === 'localhost' ||
+        hostname.endsWith('.localhost') ||
+        (isIPLiteral(hostname) && isPrivateAddress(hostname));
+    if (!allowPrivate && isPrivateHost) {
+        throw new RoomError(ErrorCode.INVALID_MESSAGE, 'Webhook url must not be a private address');
+    }
+
+    return parsed.toString();
+}
+
+// Resolves a host name to every address it has
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const resolveHost: HostResolver = async (hostname) =>
+    (await lookup(hostname, { all: true, verbatim: true })).map(({ address }) => address);
+
+// A webhook host that resolves to an address rooms must not call, retrying does not help
+export class WebhookAddressError extends Error {}
+
+/**
+ * Resolves the host of a webhook url and checks every address it resolves to.
+ * @throws {WebhookAddressError} When the host does not resolve or resolves to a private address.
+ */
+export async function resolvePublicAddresses(
+    hostname: string,
+    resolve: HostResolver = resolveHost,
+): Promise<string[]> {
+    const addresses = isIPLiteral(hostname) ? [hostname] : await resolve(hostname);
+
+    const privateAddress = addresses.find(isPrivateAddress);
+    if (addresses.length === 0 || privateAddress) {
+        throw new WebhookAddressError(`Webhook host ${hostname} resolves to a private address`);
+    }
+    return addresses;
+}
+
+// Hands the connection the very addresses that were checked, a host answering the check with
+// a public address and a second lookup with an internal one (DNS rebinding) gets nowhere
+function createPublicLookup(resolve: HostResolver): LookupFunction {
+    return (hostname, options, callback) => {
+        resolvePublicAddresses(hostname, resolve).then(
+            (addresses) => {
+                const entries = addresses.map((address) => ({ address, family: isIP(address) }));
+                if (options.all) {
+                    callback(null, entries);
+                } else {
+                    callback(null, entries[0].address, entries[0].family);
+                }
+            },
+            (error) => callback(error, '', 0),
+        );
+    };
+}
+
+interface WebhookRequest {
+    headers: Record<string, string>;
+    body: string;
+    // Milliseconds
+    timeout: number;
+    // Skips the address checks, for the webhooks of the server config
+    allowPrivate?: boolean;
+    resolve?: HostResolver;
+}
+
+/**
+ * Posts a webhook body. Unless private addresses are allowed, the connection is only made to
+ * addresses checked by the lookup of that very connection, and redirects are not followed.
+ * @returns The HTTP status of the response.
+ * @throws {WebhookAddressError} When the host resolves to a private address.
+ */
+export function postWebhook(
+    url: string,
+    { headers, body, timeout, allowPrivate = false, resolve = resolveHost }: WebhookRequest,
+): Promise<number> {
+    const target = new URL(url);
+    // IP literals are connected to without a lookup
+    if (!allowPrivate && isIPLiteral(target.hostname) && isPrivateAddress(target.hostname)) {
+        return Promise.reject(
+            new WebhookAddressError(`Webhook host ${target.hostname} is a private address`),
+        );
+    }
+
+    return new Promise((resolveStatus, reject) => {
+        const request = (target.protocol === 'https:' ? https : http).request(
+            target,
+            {
+                method: 'POST',
+                headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+                lookup: allowPrivate ? undefined : createPublicLookup(resolve),
+                timeout,
+            },
+            (response) => {
+                response.resume();
+                resolveStatus(response.statusCode ?? 0);
+            },
+        );
+        request.on('timeout', () => request.destroy(new Error('Webhook request timed out')));
+        request.on('error', reject);
+        request.end(body);
+    });
+}
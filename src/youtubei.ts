@@ -481,6 +481,21 @@ const mapYoutubeiVideo = (video: VideoCompact): YouTubeVideo => ({
     },
 });
 
+/**
+ * Returns the videos YouTube suggests next to a video, the same list the `/related` route
+ * serves as its first page. Live streams are left out, embeddability is not checked.
+ */
+export const getRelatedVideos = async (videoId: string): Promise<YouTubeVideo[]> => {
+    const video = await youtubei.getVideo(videoId);
+    if (!video?.related) {
+        return [];
+    }
+
+    return video.related.items
+        .filter((item): item is VideoCompact => 'duration' in item && !!item.duration)
+        .map(mapYoutubeiVideo);
+};
+
 export const checkEmbeddable = async (videoId: string): Promise<boolean> => {
     const baseUrls = [`https://www.youtube-nocookie.com/embed/`, `https://www.youtube.com/embed/`];
     const errString = `Playback on other websites has been disabled by the video own`;